@@ -0,0 +1,101 @@
+import { Router, json, type Request, type Response, type NextFunction } from "express";
+import type { GameServer } from "./server.js";
+import { secretsEqual } from "./secret.js";
+import type { Game } from "./game.js";
+
+/**
+ * Creates an express.js `Router` with routes that allow server operators to inspect and intervene in running games.
+ *
+ * All routes are prefixed with `/api/admin` and require an `Authorization: Bearer <token>` header.
+ * @param gameServer The `GameServer` instance.
+ * @param token The operator token.
+ * @returns an express `Router`.
+ */
+export function createAdminApi<Config extends object>(gameServer: GameServer<Config>, token: string): Router {
+  const router = Router();
+  router.use("/api/admin", json({ limit: '2kb' }), (req: Request, res: Response, next: NextFunction) => {
+    if (verifyToken(req.headers.authorization, token)) next();
+    else res.status(401).send("A valid operator token is required.");
+  });
+
+  const describe = (game: Game<Config>, _public: boolean) => ({
+    id: game.id,
+    public: _public,
+    protected: game.protected,
+    state: game.getState(),
+    joinable: game.joinable(),
+    players: game.getPlayerCount(),
+    ready_players: game.getReadyPlayerCount(),
+    spectators: game.getSpectatorCount(),
+  });
+
+  // games
+  router.get("/api/admin/games", (_, res) => {
+    res.status(200).json({
+      games: [
+        ...Object.values(gameServer.getPublicGames()).map((game) => describe(game, true)),
+        ...Object.values(gameServer.getPrivateGames()).map((game) => describe(game, false)),
+      ]
+    });
+  });
+
+  router.delete("/api/admin/games/:gameId", (req, res) => {
+    if (gameServer.deleteGame(req.params.gameId, "a request by a server operator")) res.status(204).end();
+    else res.status(404).send("Game not found.");
+  });
+
+  router.put("/api/admin/games/:gameId/joinable", (req, res) => {
+    const game = gameServer.getGame(req.params.gameId);
+    if (!game) {
+      res.status(404).send("Game not found.");
+    } else if (typeof req.body?.joinable !== "boolean") {
+      res.status(400).send("Please specify `joinable` as a boolean.");
+    } else {
+      if (req.body.joinable) game.allowJoining();
+      else game.disallowJoining();
+      res.status(200).json({ joinable: game.joinable() });
+    }
+  });
+
+  // players
+  router.delete("/api/admin/games/:gameId/players/:playerId", (req, res) => {
+    const game = gameServer.getGame(req.params.gameId);
+    const player = game?.getPlayer(req.params.playerId);
+    if (!game) {
+      res.status(404).send("Game not found.");
+    } else if (!player) {
+      res.status(404).send("Player not found.");
+    } else {
+      game.removePlayer(player);
+      player.terminate("being kicked by a server operator");
+      gameServer.logger.infoStdout(`Kicked player ${player.id} from game ${game.id.slice(0, 8)}.`);
+      res.status(204).end();
+    }
+  });
+
+  // notices
+  router.post("/api/admin/notice", (req, res) => {
+    if (typeof req.body?.message !== "string" || !req.body.message) {
+      res.status(400).send("Please specify a message.");
+    } else {
+      const games = [...Object.values(gameServer.getPublicGames()), ...Object.values(gameServer.getPrivateGames())];
+      for (const game of games) game.broadcastNotice(req.body.message);
+      gameServer.logger.infoStdout(`Broadcast a server notice to ${games.length} games.`, { message: req.body.message });
+      res.status(200).json({ games: games.length });
+    }
+  });
+
+  return router;
+}
+
+/**
+ * Compares the token in an `Authorization` header to the operator token in constant time.
+ * @param header The value of the `Authorization` header.
+ * @param token The operator token.
+ * @returns whether the header contains the operator token.
+ */
+function verifyToken(header: string | undefined, token: string): boolean {
+  const match = /^Bearer (?<given>.+)$/.exec(header || "");
+  if (!match?.groups) return false;
+  return secretsEqual(match.groups.given, token);
+}
@@ -1,6 +1,10 @@
-import { Router, json } from "express";
+import { Router, json, type Request, type Response, type NextFunction } from "express";
 import express from "express";
 import { GameServer } from "./server.js";
+import { Matchmaker } from "./matchmaker.js";
+import { rateLimitByIp } from "./rate-limiter.js";
+import { SessionTokens } from "./session-tokens.js";
+import type { Game } from "./game.js";
 
 export interface Info {
   name: string,
@@ -30,6 +34,36 @@ export function createApi<Config extends object>(
 ): Router {
   const router = Router();
   router.use(json({ limit: '2kb' }));
+  const refuseWhileShuttingDown = (_: Request, res: Response, next: NextFunction) => {
+    if (gameServer.shuttingDown()) res.status(503).send("The server is shutting down.");
+    else next();
+  };
+  const limitCreateGame = rateLimitByIp(gameServer.rateLimiters.createGame);
+  const limitCreatePlayer = rateLimitByIp(gameServer.rateLimiters.createPlayer);
+  /** Limits matchmaking requests like game creations if every request creates a game. */
+  const limitMatchmakingGames = (req: Request, res: Response, next: NextFunction) => {
+    if (gameServer.matchmaker?.PLAYERS_PER_GAME === 1) limitCreateGame(req, res, next);
+    else next();
+  };
+
+  /**
+   * Checks that a request was made by the host of a game. Until the host role is transferred to a player,
+   * the host authenticates with a `host_secret` in the body or an `Authorization: Bearer <host_secret>` header,
+   * afterwards with the session token or `player_secret` of the host player.
+   * @returns the status code and message to refuse the request with or `null` if the request was made by the host.
+   */
+  const refuseUnlessHost = (req: Request, game: Game<Config>): { status: number, message: string; } | null => {
+    const host = game.getHost();
+    if (host) {
+      const secret = req.body?.player_secret;
+      const found = gameServer.authenticatePlayer(game.id, host.id, SessionTokens.fromHeaders(req.headers), secret ? String(secret) : null);
+      return "player" in found ? null : found;
+    }
+    const hostSecret = req.body?.host_secret || /^Bearer (?<secret>\S+)$/.exec(req.headers.authorization || "")?.groups?.secret;
+    if (!hostSecret) return { status: 400, message: "Please provide the host secret." };
+    if (!game.verifyHostSecret(String(hostSecret))) return { status: 401, message: "Incorrect host secret provided." };
+    return null;
+  };
 
   // static
   if (webRoot) router.use(express.static(webRoot));
@@ -39,21 +73,167 @@ export function createApi<Config extends object>(
 
   router.get("/api/events", (_, res) => res.status(200).contentType('text/plain').sendFile(cgePath));
 
+  // metrics
+  if (gameServer.metricsEnabled) {
+    router.get("/api/metrics", (_, res) => res.status(200).contentType("text/plain; version=0.0.4").send(gameServer.collectMetrics()));
+  }
+
   // games
-  router.get("/api/games", (_, res) => {
+  router.get("/api/games", (req, res) => {
     res.status(200).json({
-      public: Object.entries(gameServer.getPublicGames()).map(([id, game]) => ({
-        id, players: game.getPlayerCount(), protected: game.protected
-      })),
+      public: Object.entries(gameServer.getPublicGames())
+        .filter(([_, game]) => !req.query.state || game.getState() === req.query.state)
+        .map(([id, game]) => ({
+          id, players: game.getPlayerCount(), protected: game.protected, state: game.getState(), ready_players: game.getReadyPlayerCount()
+        })),
       private: Object.keys(gameServer.getPrivateGames()).length
     });
   });
 
-  router.post("/api/games", (req, res) => {
+  router.post("/api/games", refuseWhileShuttingDown, limitCreateGame, (req, res, next) => {
     if (gameServer.maxGamesCountReached()) res.status(403).send("The maximum number of games for this server has been reached.");
     else {
-      const { gameId, joinSecret } = gameServer.createGame(req.body?.public || false, req.body?.protected || false, req.body?.config);
-      res.status(201).json({ game_id: gameId, join_secret: joinSecret });
+      const { gameId, joinSecret, hostSecret } = gameServer.createGame(req.body?.public || false, req.body?.protected || false, req.body?.config);
+      // games in worker threads cannot be joined before the worker has created them
+      gameServer.whenCreated(gameId).then((game) => {
+        if (game) res.status(201).json({ game_id: gameId, join_secret: joinSecret, host_secret: hostSecret });
+        else res.status(500).send("The game could not be created.");
+      }).catch((err) => next(err));
+    }
+  });
+
+  router.delete("/api/games/:gameId", (req, res) => {
+    const game = gameServer.getGame(req.params.gameId);
+    const refusal = game ? refuseUnlessHost(req, game) : null;
+    if (!game) {
+      res.status(404).send("Game not found.");
+    } else if (refusal) {
+      res.status(refusal.status).send(refusal.message);
+    } else {
+      gameServer.deleteGame(game.id, "a request by its host");
+      res.status(204).end();
+    }
+  });
+
+  // host
+  router.post("/api/games/:gameId/host/kick", (req, res) => {
+    const game = gameServer.getGame(req.params.gameId);
+    const refusal = game ? refuseUnlessHost(req, game) : null;
+    const player = game?.getPlayer(String(req.body?.player_id));
+    if (!game) {
+      res.status(404).send("Game not found.");
+    } else if (refusal) {
+      res.status(refusal.status).send(refusal.message);
+    } else if (!player) {
+      res.status(404).send("Player not found.");
+    } else {
+      try {
+        game.kickPlayer(player);
+        res.status(204).end();
+      } catch (err) {
+        res.status(403).send(String(err));
+      }
+    }
+  });
+
+  router.put("/api/games/:gameId/host/joinable", (req, res) => {
+    const game = gameServer.getGame(req.params.gameId);
+    const refusal = game ? refuseUnlessHost(req, game) : null;
+    if (!game) {
+      res.status(404).send("Game not found.");
+    } else if (refusal) {
+      res.status(refusal.status).send(refusal.message);
+    } else if (typeof req.body?.joinable !== "boolean") {
+      res.status(400).send("Please specify `joinable` as a boolean.");
+    } else {
+      game.setJoinable(req.body.joinable);
+      res.status(200).json({ joinable: req.body.joinable });
+    }
+  });
+
+  router.post("/api/games/:gameId/host/start", (req, res) => {
+    const game = gameServer.getGame(req.params.gameId);
+    const refusal = game ? refuseUnlessHost(req, game) : null;
+    if (!game) {
+      res.status(404).send("Game not found.");
+    } else if (refusal) {
+      res.status(refusal.status).send(refusal.message);
+    } else {
+      try {
+        game.startByHost();
+        res.status(204).end();
+      } catch (err) {
+        res.status(403).send(String(err));
+      }
+    }
+  });
+
+  router.patch("/api/games/:gameId/host/config", (req, res) => {
+    const game = gameServer.getGame(req.params.gameId);
+    const refusal = game ? refuseUnlessHost(req, game) : null;
+    if (!game) {
+      res.status(404).send("Game not found.");
+    } else if (refusal) {
+      res.status(refusal.status).send(refusal.message);
+    } else if (typeof req.body?.config !== "object" || req.body.config === null || Array.isArray(req.body.config)) {
+      res.status(400).send("Please specify the changed fields as a `config` object.");
+    } else {
+      try {
+        game.updateConfig(req.body.config);
+        res.status(200).json({ config: game.config });
+      } catch (err) {
+        res.status(403).send(String(err));
+      }
+    }
+  });
+
+  router.post("/api/games/:gameId/host/transfer", (req, res) => {
+    const game = gameServer.getGame(req.params.gameId);
+    const refusal = game ? refuseUnlessHost(req, game) : null;
+    const player = game?.getPlayer(String(req.body?.player_id));
+    if (!game) {
+      res.status(404).send("Game not found.");
+    } else if (refusal) {
+      res.status(refusal.status).send(refusal.message);
+    } else if (!player) {
+      res.status(404).send("Player not found.");
+    } else {
+      try {
+        game.transferHost(player);
+        res.status(204).end();
+      } catch (err) {
+        res.status(403).send(String(err));
+      }
+    }
+  });
+
+  // matchmaking
+  router.post("/api/matchmaking", refuseWhileShuttingDown, limitCreatePlayer, limitMatchmakingGames, (req, res) => {
+    const matchmaker = gameServer.matchmaker;
+    if (!matchmaker) {
+      res.status(404).send("Matchmaking is not enabled on this server.");
+    } else if (!req.body?.username) {
+      res.status(400).send("Please specify a username.");
+    } else if (req.body.criteria !== undefined && !Matchmaker.validCriteria(req.body.criteria)) {
+      res.status(400).send("The criteria must be an object of strings, numbers and booleans.");
+    } else {
+      const cancel = matchmaker.enqueue(String(req.body.username), req.body.criteria || {}, (outcome) => {
+        if (outcome.status === "matched") {
+          res.status(200).json({
+            game_id: outcome.game_id,
+            player_id: outcome.player_id,
+            player_secret: outcome.player_secret,
+            session_token: outcome.session_token,
+            session_expires_at: outcome.session_expires_at
+          });
+        } else if (outcome.status === "timeout") {
+          res.status(408).send("No match was found in time.");
+        } else {
+          res.status(503).send(outcome.message);
+        }
+      });
+      // leave the queue when the client gives up waiting
+      res.on("close", () => { if (!res.writableEnded) cancel(); });
     }
   });
 
@@ -62,7 +242,15 @@ export function createApi<Config extends object>(
     if (!game) {
       res.status(404).send("Game not found.");
     } else {
-      res.status(200).json({ id: game.id, players: game.getPlayerCount(), protected: game.protected, config: game.config });
+      res.status(200).json({
+        id: game.id,
+        players: game.getPlayerCount(),
+        protected: game.protected,
+        state: game.getState(),
+        ready_players: game.getReadyPlayerCount(),
+        config: game.config,
+        host: game.getHost()?.id ?? null
+      });
     }
   });
 
@@ -71,11 +259,15 @@ export function createApi<Config extends object>(
     if (!game) {
       res.status(404).send("Game not found.");
     } else {
-      res.status(200).json({ players: Object.fromEntries(Object.entries(game.getPlayers()).map(([id, player]) => [id, player.username])) });
+      const players = Object.entries(game.getPlayers());
+      res.status(200).json({
+        players: Object.fromEntries(players.map(([id, player]) => [id, player.username])),
+        teams: Object.fromEntries(players.map(([id]) => [id, game.getTeam(id)]).filter(([, team]) => team !== null))
+      });
     }
   });
 
-  router.post("/api/games/:gameId/players", (req, res) => {
+  router.post("/api/games/:gameId/players", refuseWhileShuttingDown, limitCreatePlayer, (req, res) => {
     const game = gameServer.getGame(req.params.gameId);
     if (!game) {
       res.status(404).send("Game not found.");
@@ -91,7 +283,46 @@ export function createApi<Config extends object>(
       res.status(401).send("Incorrect join secret provided.");
     } else {
       const { id, secret } = game.addPlayer(req.body.username);
-      res.status(200).json({ player_id: id, player_secret: secret });
+      const session = gameServer.sessions.issue(game.id, id);
+      res.status(200).json({ player_id: id, player_secret: secret, session_token: session.token, session_expires_at: session.expires_at });
+    }
+  });
+
+  // only the host fills the game with bots, so that nobody else can lock players out
+  router.post("/api/games/:gameId/bots", refuseWhileShuttingDown, limitCreatePlayer, (req, res) => {
+    const game = gameServer.getGame(req.params.gameId);
+    const refusal = game ? refuseUnlessHost(req, game) : null;
+    const count = req.body?.count;
+    if (!game) {
+      res.status(404).send("Game not found.");
+    } else if (refusal) {
+      res.status(refusal.status).send(refusal.message);
+    } else if (game.full()) {
+      res.status(403).send("Player limit has been reached.");
+    } else if (!game.joinable()) {
+      res.status(403).send("Joining has been temporarily disallowed by the game logic.");
+    } else if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+      res.status(400).send("The count must be a positive integer.");
+    } else {
+      try {
+        const bots = game.fillWithBots(count);
+        res.status(200).json({ player_ids: bots.map((bot) => bot.id) });
+      } catch (err) {
+        res.status(403).send(String(err));
+      }
+    }
+  });
+
+  router.delete("/api/games/:gameId/players/:playerId", (req, res) => {
+    const secret = req.body?.player_secret;
+    const found = gameServer.authenticatePlayer(req.params.gameId, req.params.playerId, SessionTokens.fromHeaders(req.headers), secret ? String(secret) : null);
+    if (!("player" in found)) {
+      res.status(found.status).send(found.message);
+    } else {
+      const { player } = found;
+      gameServer.getGame(req.params.gameId)?.removePlayer(player);
+      player.terminate("leaving the game");
+      res.status(204).end();
     }
   });
 
@@ -104,10 +335,40 @@ export function createApi<Config extends object>(
       if (!player) {
         res.status(404).send("Player not found.");
       } else {
-        res.status(200).send({ username: player.username });
+        res.status(200).send({ username: player.username, team: game.getTeam(player.id), bot: player.isBot() });
       }
     }
   });
 
+  // sessions
+  router.post("/api/sessions/refresh", (req, res) => {
+    const token = SessionTokens.fromHeaders(req.headers);
+    const claims = token ? gameServer.sessions.verify(token) : null;
+    if (!token) {
+      res.status(400).send("Please provide a session token in an `Authorization: Bearer <token>` header.");
+    } else if (!claims) {
+      res.status(401).send("The session token is invalid, expired or revoked.");
+    } else if (!gameServer.getGame(claims.game_id)?.getPlayer(claims.player_id)) {
+      res.status(404).send("Player not found.");
+    } else {
+      const session = gameServer.sessions.refresh(token);
+      if (!session) res.status(401).send("The session token is invalid, expired or revoked.");
+      else res.status(200).json({ session_token: session.token, session_expires_at: session.expires_at });
+    }
+  });
+
+  router.post("/api/sessions/revoke", (req, res) => {
+    const token = SessionTokens.fromHeaders(req.headers);
+    const claims = token ? gameServer.sessions.verify(token) : null;
+    if (!token) {
+      res.status(400).send("Please provide a session token in an `Authorization: Bearer <token>` header.");
+    } else if (!claims) {
+      res.status(401).send("The session token is invalid, expired or revoked.");
+    } else {
+      gameServer.sessions.revoke(claims);
+      res.status(204).end();
+    }
+  });
+
   return router;
 }
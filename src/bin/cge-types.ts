@@ -0,0 +1,22 @@
+#!/usr/bin/env node
+import { writeFileSync } from "fs";
+import { loadCGE } from "../cge.js";
+import { generateTypes } from "../generate-types.js";
+
+const USAGE = "Usage: cge-types <events.cge> [output.ts]\n\nGenerates TypeScript types from a Code Game Events file. The types are printed to stdout if no output file is specified.";
+
+const [input, output] = process.argv.slice(2);
+
+if (!input || input === "-h" || input === "--help") {
+  console.error(USAGE);
+  process.exit(input ? 0 : 1);
+}
+
+try {
+  const source = generateTypes(loadCGE(input));
+  if (output) writeFileSync(output, source);
+  else process.stdout.write(source);
+} catch (err) {
+  console.error(`Unable to generate types: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+}
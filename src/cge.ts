@@ -0,0 +1,366 @@
+import { readFileSync } from "fs";
+import type { AnyCommand } from "./game-socket.js";
+
+/** The primitive data types supported by CGE. */
+export type CGEPrimitive = "string" | "bool" | "int" | "int32" | "int64" | "float" | "float32" | "float64";
+
+/** A reference to a data type in a CGE file. */
+export type CGEType =
+  | { kind: "primitive", name: CGEPrimitive; }
+  | { kind: "list", of: CGEType; }
+  | { kind: "map", of: CGEType; }
+  | { kind: "custom", name: string; };
+
+/** A single field of a config, command, event or type. */
+export type CGEField = {
+  type: CGEType,
+  doc?: string;
+};
+
+/** A declaration that contains fields. */
+export type CGEObject = {
+  fields: { [index: string]: CGEField; },
+  doc?: string;
+};
+
+/** An enum declaration. */
+export type CGEEnum = {
+  values: { name: string, doc?: string; }[],
+  doc?: string;
+};
+
+/** The parsed contents of a Code Game Events file. */
+export type CGE = {
+  name: string,
+  version: string,
+  config: CGEObject | null,
+  commands: { [index: string]: CGEObject; },
+  events: { [index: string]: CGEObject; },
+  types: { [index: string]: CGEObject; },
+  enums: { [index: string]: CGEEnum; };
+};
+
+/** Describes why a command was rejected. */
+export type ValidationError = {
+  /** The path to the offending value, e.g. `data.position.x`. */
+  path: string,
+  message: string;
+};
+
+type Token = {
+  kind: "word" | "symbol" | "comment",
+  value: string,
+  line: number;
+};
+
+const PRIMITIVES: readonly string[] = ["string", "bool", "int", "int32", "int64", "float", "float32", "float64"];
+
+/**
+ * Splits the contents of a CGE file into tokens.
+ * @param source The contents of the CGE file.
+ * @returns the tokens.
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === "\n") {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith("//", i)) {
+      const end = source.indexOf("\n", i);
+      const stop = end === -1 ? source.length : end;
+      tokens.push({ kind: "comment", value: source.slice(i + 2, stop).trim(), line });
+      i = stop;
+    } else if (source.startsWith("/*", i)) {
+      const end = source.indexOf("*/", i + 2);
+      if (end === -1) throw `Unterminated block comment on line ${line} of the CGE file.`;
+      const comment = source.slice(i + 2, end);
+      tokens.push({ kind: "comment", value: comment.split("\n").map((l) => l.replace(/^\s*\*?\s?/, "")).join("\n").trim(), line });
+      line += comment.split("\n").length - 1;
+      i = end + 2;
+    } else if ("{}<>:,".includes(char)) {
+      tokens.push({ kind: "symbol", value: char, line });
+      i++;
+    } else if (/[\w.]/.test(char)) {
+      let end = i;
+      while (end < source.length && /[\w.]/.test(source[end])) end++;
+      tokens.push({ kind: "word", value: source.slice(i, end), line });
+      i = end;
+    } else {
+      throw `Unexpected character "${char}" on line ${line} of the CGE file.`;
+    }
+  }
+  return tokens;
+}
+
+/** A recursive descent parser for CGE files. */
+class Parser {
+  private readonly tokens: Token[];
+  private position = 0;
+  /** Comments collected since the last consumed non-comment token. */
+  private pendingDoc: string[] = [];
+
+  public constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  public parse(): CGE {
+    const cge: CGE = { name: "", version: "", config: null, commands: {}, events: {}, types: {}, enums: {} };
+    while (this.peek()) {
+      const keyword = this.expectWord();
+      const doc = this.takeDoc();
+      switch (keyword.value) {
+        case "name":
+          cge.name = this.expectWord().value;
+          break;
+        case "version":
+          cge.version = this.expectWord().value;
+          break;
+        case "config":
+          cge.config = this.parseObject(doc);
+          break;
+        case "command":
+          this.declare(cge.commands, "command", doc);
+          break;
+        case "event":
+          this.declare(cge.events, "event", doc);
+          break;
+        case "type":
+          this.declare(cge.types, "type", doc);
+          break;
+        case "enum": {
+          const name = this.expectWord();
+          if (cge.enums[name.value]) throw `Duplicate enum "${name.value}" on line ${name.line} of the CGE file.`;
+          cge.enums[name.value] = this.parseEnum(doc);
+          break;
+        }
+        default:
+          throw `Unexpected "${keyword.value}" on line ${keyword.line} of the CGE file.`;
+      }
+    }
+    if (!cge.name) throw "The CGE file does not specify a name.";
+    this.checkReferences(cge);
+    return cge;
+  }
+
+  private declare(into: { [index: string]: CGEObject; }, what: string, doc?: string) {
+    const name = this.expectWord();
+    if (into[name.value]) throw `Duplicate ${what} "${name.value}" on line ${name.line} of the CGE file.`;
+    into[name.value] = this.parseObject(doc);
+  }
+
+  private parseObject(doc?: string): CGEObject {
+    this.expectSymbol("{");
+    const fields: CGEObject["fields"] = {};
+    while (!this.acceptSymbol("}")) {
+      const name = this.expectWord();
+      const fieldDoc = this.takeDoc();
+      if (fields[name.value]) throw `Duplicate field "${name.value}" on line ${name.line} of the CGE file.`;
+      this.expectSymbol(":");
+      fields[name.value] = { type: this.parseType(), doc: fieldDoc };
+      if (!this.acceptSymbol(",")) {
+        this.expectSymbol("}");
+        break;
+      }
+    }
+    return { fields, doc };
+  }
+
+  private parseEnum(doc?: string): CGEEnum {
+    this.expectSymbol("{");
+    const values: CGEEnum["values"] = [];
+    while (!this.acceptSymbol("}")) {
+      const name = this.expectWord();
+      values.push({ name: name.value, doc: this.takeDoc() });
+      if (!this.acceptSymbol(",")) {
+        this.expectSymbol("}");
+        break;
+      }
+    }
+    return { values, doc };
+  }
+
+  private parseType(): CGEType {
+    const name = this.expectWord();
+    if (name.value === "list" || name.value === "map") {
+      this.expectSymbol("<");
+      const of = this.parseType();
+      this.expectSymbol(">");
+      return { kind: name.value, of };
+    }
+    if (PRIMITIVES.includes(name.value)) return { kind: "primitive", name: name.value as CGEPrimitive };
+    return { kind: "custom", name: name.value };
+  }
+
+  /** Makes sure that every custom type that is referenced is also declared. */
+  private checkReferences(cge: CGE) {
+    const check = (type: CGEType, where: string) => {
+      if (type.kind === "list" || type.kind === "map") check(type.of, where);
+      else if (type.kind === "custom" && !cge.types[type.name] && !cge.enums[type.name]) {
+        throw `Unknown type "${type.name}" referenced in ${where} of the CGE file.`;
+      }
+    };
+    const checkObject = (object: CGEObject, where: string) => {
+      for (const [name, field] of Object.entries(object.fields)) check(field.type, `${where}.${name}`);
+    };
+    if (cge.config) checkObject(cge.config, "config");
+    for (const [name, object] of Object.entries(cge.commands)) checkObject(object, `command ${name}`);
+    for (const [name, object] of Object.entries(cge.events)) checkObject(object, `event ${name}`);
+    for (const [name, object] of Object.entries(cge.types)) checkObject(object, `type ${name}`);
+  }
+
+  /**
+   * Returns the next non-comment token without consuming it.
+   * Comments that are skipped are collected as documentation.
+   */
+  private peek(): Token | undefined {
+    while (this.tokens[this.position]?.kind === "comment") {
+      this.pendingDoc.push(this.tokens[this.position].value);
+      this.position++;
+    }
+    return this.tokens[this.position];
+  }
+
+  /** Returns the comments directly preceding the last consumed token. */
+  private takeDoc(): string | undefined {
+    const doc = this.pendingDoc.join("\n");
+    this.pendingDoc = [];
+    return doc || undefined;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (!token) throw "Unexpected end of the CGE file.";
+    this.position++;
+    return token;
+  }
+
+  private expectWord(): Token {
+    const token = this.next();
+    if (token.kind !== "word") throw `Expected a name but got "${token.value}" on line ${token.line} of the CGE file.`;
+    return token;
+  }
+
+  private expectSymbol(symbol: string) {
+    const token = this.next();
+    if (token.value !== symbol) throw `Expected "${symbol}" but got "${token.value}" on line ${token.line} of the CGE file.`;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    if (this.peek()?.value !== symbol) return false;
+    this.position++;
+    this.pendingDoc = [];
+    return true;
+  }
+}
+
+/**
+ * Parses the contents of a Code Game Events file.
+ * @param source The contents of the CGE file.
+ * @returns the parsed CGE file.
+ * @throws if the file is not valid CGE.
+ */
+export function parseCGE(source: string): CGE {
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Reads and parses a Code Game Events file.
+ * @param cgePath The file path to the CGE file.
+ * @returns the parsed CGE file.
+ * @throws if the file cannot be read or is not valid CGE.
+ */
+export function loadCGE(cgePath: string): CGE {
+  return parseCGE(readFileSync(cgePath, "utf-8"));
+}
+
+/**
+ * Checks whether a value matches a CGE type.
+ * @param cge The CGE file that the type belongs to.
+ * @param type The expected type.
+ * @param value The value to check.
+ * @param path The path to the value, used in error messages.
+ * @param errors The list that validation errors are appended to.
+ */
+function validateType(cge: CGE, type: CGEType, value: unknown, path: string, errors: ValidationError[]) {
+  switch (type.kind) {
+    case "primitive":
+      switch (type.name) {
+        case "string":
+          if (typeof value !== "string") errors.push({ path, message: "Expected a string." });
+          break;
+        case "bool":
+          if (typeof value !== "boolean") errors.push({ path, message: "Expected a boolean." });
+          break;
+        case "int":
+        case "int32":
+        case "int64":
+          if (!Number.isInteger(value)) errors.push({ path, message: "Expected an integer." });
+          break;
+        default:
+          if (typeof value !== "number" || !isFinite(value)) errors.push({ path, message: "Expected a number." });
+      }
+      break;
+    case "list":
+      if (!Array.isArray(value)) errors.push({ path, message: "Expected a list." });
+      else value.forEach((item, index) => validateType(cge, type.of, item, `${path}[${index}]`, errors));
+      break;
+    case "map":
+      if (!isPlainObject(value)) errors.push({ path, message: "Expected a map." });
+      else for (const [key, item] of Object.entries(value)) validateType(cge, type.of, item, `${path}.${key}`, errors);
+      break;
+    case "custom": {
+      const enumeration = cge.enums[type.name];
+      if (enumeration) {
+        if (!enumeration.values.some((v) => v.name === value)) {
+          errors.push({ path, message: `Expected one of ${enumeration.values.map((v) => `"${v.name}"`).join(", ")}.` });
+        }
+      } else {
+        validateObject(cge, cge.types[type.name], value, path, errors);
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether a value matches a CGE object declaration.
+ * @param cge The CGE file that the declaration belongs to.
+ * @param object The expected object declaration.
+ * @param value The value to check.
+ * @param path The path to the value, used in error messages.
+ * @param errors The list that validation errors are appended to.
+ */
+function validateObject(cge: CGE, object: CGEObject, value: unknown, path: string, errors: ValidationError[]) {
+  if (!isPlainObject(value)) {
+    errors.push({ path, message: "Expected an object." });
+    return;
+  }
+  for (const [name, field] of Object.entries(object.fields)) {
+    if (!Object.prototype.hasOwnProperty.call(value, name)) errors.push({ path: `${path}.${name}`, message: "Missing required field." });
+    else validateType(cge, field.type, value[name], `${path}.${name}`, errors);
+  }
+}
+
+function isPlainObject(value: unknown): value is { [index: string]: unknown; } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates a command against the commands declared in a CGE file.
+ * @param cge The parsed CGE file.
+ * @param command The deserialized command.
+ * @returns a list of validation errors, which is empty if the command is valid.
+ */
+export function validateCommand(cge: CGE, command: AnyCommand): ValidationError[] {
+  const declaration = Object.prototype.hasOwnProperty.call(cge.commands, command.name) ? cge.commands[command.name] : undefined;
+  if (!declaration) return [{ path: "name", message: `Unknown command "${command.name}".` }];
+  const errors: ValidationError[] = [];
+  if (Object.keys(declaration.fields).length === 0 && command.data === undefined) return errors;
+  validateObject(cge, declaration, command.data, "data", errors);
+  return errors;
+}
@@ -0,0 +1,69 @@
+/** A handle that identifies a timer of a `Clock`. */
+export type Timer = object;
+
+/** A source of the current time and of timers. */
+export interface Clock {
+  /**
+   * Gets the current time.
+   * @returns the unix timestamp in milliseconds.
+   */
+  now(): number;
+  /**
+   * Calls a function once after a delay.
+   * @param callback The function to call.
+   * @param ms The delay in milliseconds.
+   * @returns the timer.
+   */
+  setTimeout(callback: () => void, ms: number): Timer;
+  /**
+   * Calls a function repeatedly.
+   * @param callback The function to call.
+   * @param ms The time between calls in milliseconds.
+   * @returns the timer.
+   */
+  setInterval(callback: () => void, ms: number): Timer;
+  /**
+   * Cancels a timer created by `setTimeout` or `setInterval`.
+   * @param timer The timer.
+   */
+  clearTimer(timer: Timer): void;
+}
+
+/** The clock of the system, which uses the global timer functions. */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  setInterval: (callback, ms) => setInterval(callback, ms),
+  clearTimer: (timer) => clearTimeout(timer as NodeJS.Timeout),
+};
+
+let current: Clock = systemClock;
+
+/** A timer of `clock` together with the clock that created it. */
+type DelegatedTimer = {
+  owner: Clock,
+  timer: Timer;
+};
+
+/**
+ * The clock used by all games, players and sockets. It delegates to the clock set with `useClock`.
+ * Its timers are cleared by the clock that created them, even if the clock has been replaced since.
+ */
+export const clock: Clock = {
+  now: () => current.now(),
+  setTimeout: (callback, ms): DelegatedTimer => ({ owner: current, timer: current.setTimeout(callback, ms) }),
+  setInterval: (callback, ms): DelegatedTimer => ({ owner: current, timer: current.setInterval(callback, ms) }),
+  clearTimer: (timer) => {
+    const { owner, timer: delegated } = timer as DelegatedTimer;
+    owner.clearTimer(delegated);
+  },
+};
+
+/**
+ * Replaces the clock used by all games, players and sockets, e.g. with a fake clock in tests.
+ * Timers that were created before the clock was replaced keep running on the previous clock.
+ * @param replacement The new clock or `null` to restore the system clock.
+ */
+export function useClock(replacement: Clock | null) {
+  current = replacement || systemClock;
+}
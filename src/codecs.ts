@@ -0,0 +1,244 @@
+/**
+ * Serializes the messages of a websocket connection.
+ *
+ * Clients select a codec by requesting its `name` as a subprotocol in the `Sec-WebSocket-Protocol` header.
+ * Connections that do not request a subprotocol use `jsonCodec`.
+ */
+export interface Codec {
+  /** The websocket subprotocol that selects this codec. */
+  readonly name: string;
+  /**
+   * Serializes a message.
+   * @param message The message.
+   * @returns a string for text frames or bytes for binary frames.
+   * @throws if the message cannot be serialized.
+   */
+  encode(message: unknown): string | Uint8Array;
+  /**
+   * Deserializes a message.
+   * @param data The payload of a received frame.
+   * @returns the message.
+   * @throws if the data is invalid.
+   */
+  decode(data: Buffer): unknown;
+}
+
+/** Sends JSON in text frames. */
+export const jsonCodec: Codec = {
+  name: "json",
+  encode: (message) => JSON.stringify(message),
+  decode: (data) => JSON.parse(data.toString()),
+};
+
+/** Sends MessagePack in binary frames. Like `JSON.stringify`, `undefined` properties are omitted and `toJSON` is respected. */
+export const msgpackCodec: Codec = {
+  name: "msgpack",
+  encode: (message) => {
+    const writer = new MsgpackWriter();
+    writer.write(message);
+    return writer.bytes();
+  },
+  decode: (data) => {
+    const reader = new MsgpackReader(data);
+    const message = reader.read();
+    if (!reader.done()) throw "Unexpected data after the MessagePack value.";
+    return message;
+  },
+};
+
+const INITIAL_BUFFER_SIZE = 256;
+
+/** Encodes values into a growing buffer. */
+class MsgpackWriter {
+  private buffer = Buffer.allocUnsafe(INITIAL_BUFFER_SIZE);
+  private offset = 0;
+
+  public bytes(): Uint8Array {
+    return this.buffer.subarray(0, this.offset);
+  }
+
+  public write(value: unknown) {
+    if (value === null || value === undefined || typeof value === "function" || typeof value === "symbol") this.byte(0xc0);
+    else if (typeof value === "boolean") this.byte(value ? 0xc3 : 0xc2);
+    else if (typeof value === "number") this.number(value);
+    else if (typeof value === "bigint") this.bigint(value);
+    else if (typeof value === "string") this.string(value);
+    else if (value instanceof Uint8Array) this.binary(value);
+    else if (typeof (value as { toJSON?: unknown; }).toJSON === "function") this.write((value as { toJSON: () => unknown; }).toJSON());
+    else if (Array.isArray(value)) {
+      this.header(value.length, 0x90, 16, 0xdc, 0xdd);
+      for (const item of value) this.write(item);
+    } else {
+      const entries = Object.entries(value as object).filter(([, v]) => v !== undefined && typeof v !== "function" && typeof v !== "symbol");
+      this.header(entries.length, 0x80, 16, 0xde, 0xdf);
+      for (const [key, v] of entries) {
+        this.string(key);
+        this.write(v);
+      }
+    }
+  }
+
+  private number(value: number) {
+    if (!Number.isSafeInteger(value)) {
+      this.reserve(9);
+      this.buffer[this.offset] = 0xcb;
+      this.buffer.writeDoubleBE(value, this.offset + 1);
+      this.offset += 9;
+    } else if (value >= 0) {
+      if (value < 0x80) this.byte(value);
+      else if (value <= 0xff) this.sized(0xcc, 1, () => this.buffer.writeUInt8(value, this.offset + 1));
+      else if (value <= 0xffff) this.sized(0xcd, 2, () => this.buffer.writeUInt16BE(value, this.offset + 1));
+      else if (value <= 0xffffffff) this.sized(0xce, 4, () => this.buffer.writeUInt32BE(value, this.offset + 1));
+      else this.sized(0xcf, 8, () => this.buffer.writeBigUInt64BE(BigInt(value), this.offset + 1));
+    } else {
+      if (value >= -32) this.byte(value & 0xff);
+      else if (value >= -0x80) this.sized(0xd0, 1, () => this.buffer.writeInt8(value, this.offset + 1));
+      else if (value >= -0x8000) this.sized(0xd1, 2, () => this.buffer.writeInt16BE(value, this.offset + 1));
+      else if (value >= -0x80000000) this.sized(0xd2, 4, () => this.buffer.writeInt32BE(value, this.offset + 1));
+      else this.sized(0xd3, 8, () => this.buffer.writeBigInt64BE(BigInt(value), this.offset + 1));
+    }
+  }
+
+  private bigint(value: bigint) {
+    if (value >= BigInt(0)) this.sized(0xcf, 8, () => this.buffer.writeBigUInt64BE(value, this.offset + 1));
+    else this.sized(0xd3, 8, () => this.buffer.writeBigInt64BE(value, this.offset + 1));
+  }
+
+  private string(value: string) {
+    const length = Buffer.byteLength(value);
+    if (length < 32) this.byte(0xa0 | length);
+    else this.header(length, -1, 0, 0xda, 0xdb, 0xd9);
+    this.reserve(length);
+    this.offset += this.buffer.write(value, this.offset);
+  }
+
+  private binary(value: Uint8Array) {
+    this.header(value.length, -1, 0, 0xc5, 0xc6, 0xc4);
+    this.reserve(value.length);
+    this.buffer.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  /**
+   * Writes the type and length of a string, binary, array or map.
+   * @param length The length.
+   * @param fixType The type byte for lengths below `fixLimit` or `-1`.
+   * @param fixLimit The exclusive maximum length of the fix type.
+   * @param type16 The type byte for 16-bit lengths.
+   * @param type32 The type byte for 32-bit lengths.
+   * @param type8 The type byte for 8-bit lengths if the format has one.
+   */
+  private header(length: number, fixType: number, fixLimit: number, type16: number, type32: number, type8?: number) {
+    if (length < fixLimit) this.byte(fixType | length);
+    else if (type8 !== undefined && length <= 0xff) this.sized(type8, 1, () => this.buffer.writeUInt8(length, this.offset + 1));
+    else if (length <= 0xffff) this.sized(type16, 2, () => this.buffer.writeUInt16BE(length, this.offset + 1));
+    else this.sized(type32, 4, () => this.buffer.writeUInt32BE(length, this.offset + 1));
+  }
+
+  /** Writes a type byte followed by `size` bytes written by `write`. */
+  private sized(type: number, size: number, write: () => void) {
+    this.reserve(1 + size);
+    this.buffer[this.offset] = type;
+    write();
+    this.offset += 1 + size;
+  }
+
+  private byte(value: number) {
+    this.reserve(1);
+    this.buffer[this.offset++] = value;
+  }
+
+  /** Grows the buffer so that `size` more bytes fit. */
+  private reserve(size: number) {
+    if (this.offset + size <= this.buffer.length) return;
+    const grown = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.offset + size));
+    this.buffer.copy(grown, 0, 0, this.offset);
+    this.buffer = grown;
+  }
+}
+
+/** Decodes a single value from a buffer. */
+class MsgpackReader {
+  private readonly buffer: Buffer;
+  private offset = 0;
+
+  public constructor(buffer: Buffer) {
+    this.buffer = buffer;
+  }
+
+  public done(): boolean {
+    return this.offset === this.buffer.length;
+  }
+
+  public read(): unknown {
+    const type = this.uint(1);
+    if (type < 0x80) return type;
+    if (type < 0x90) return this.map(type & 0x0f);
+    if (type < 0xa0) return this.array(type & 0x0f);
+    if (type < 0xc0) return this.string(type & 0x1f);
+    if (type >= 0xe0) return type - 0x100;
+    switch (type) {
+      case 0xc0: return null;
+      case 0xc2: return false;
+      case 0xc3: return true;
+      case 0xc4: return this.binary(this.uint(1));
+      case 0xc5: return this.binary(this.uint(2));
+      case 0xc6: return this.binary(this.uint(4));
+      case 0xca: return this.advance(4, () => this.buffer.readFloatBE(this.offset));
+      case 0xcb: return this.advance(8, () => this.buffer.readDoubleBE(this.offset));
+      case 0xcc: return this.uint(1);
+      case 0xcd: return this.uint(2);
+      case 0xce: return this.uint(4);
+      case 0xcf: return this.advance(8, () => Number(this.buffer.readBigUInt64BE(this.offset)));
+      case 0xd0: return this.advance(1, () => this.buffer.readInt8(this.offset));
+      case 0xd1: return this.advance(2, () => this.buffer.readInt16BE(this.offset));
+      case 0xd2: return this.advance(4, () => this.buffer.readInt32BE(this.offset));
+      case 0xd3: return this.advance(8, () => Number(this.buffer.readBigInt64BE(this.offset)));
+      case 0xd9: return this.string(this.uint(1));
+      case 0xda: return this.string(this.uint(2));
+      case 0xdb: return this.string(this.uint(4));
+      case 0xdc: return this.array(this.uint(2));
+      case 0xdd: return this.array(this.uint(4));
+      case 0xde: return this.map(this.uint(2));
+      case 0xdf: return this.map(this.uint(4));
+      default: throw `Unsupported MessagePack type 0x${type.toString(16)}.`;
+    }
+  }
+
+  private map(length: number): { [index: string]: unknown; } {
+    const map: { [index: string]: unknown; } = {};
+    for (let i = 0; i < length; i++) {
+      const key = String(this.read());
+      // like `JSON.parse`, create an own property instead of replacing the prototype
+      if (key === "__proto__") Object.defineProperty(map, key, { value: this.read(), enumerable: true, writable: true, configurable: true });
+      else map[key] = this.read();
+    }
+    return map;
+  }
+
+  private array(length: number): unknown[] {
+    const array = new Array(length);
+    for (let i = 0; i < length; i++) array[i] = this.read();
+    return array;
+  }
+
+  private string(length: number): string {
+    return this.advance(length, () => this.buffer.toString("utf8", this.offset, this.offset + length));
+  }
+
+  private binary(length: number): Buffer {
+    return this.advance(length, () => Buffer.from(this.buffer.subarray(this.offset, this.offset + length)));
+  }
+
+  private uint(size: 1 | 2 | 4): number {
+    return this.advance(size, () => this.buffer.readUIntBE(this.offset, size));
+  }
+
+  /** Reads `size` bytes with `read` and moves past them. */
+  private advance<T>(size: number, read: () => T): T {
+    if (this.offset + size > this.buffer.length) throw "Unexpected end of MessagePack data.";
+    const value = read();
+    this.offset += size;
+    return value;
+  }
+}
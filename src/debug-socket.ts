@@ -1,30 +1,166 @@
-import type { WebSocket } from "ws";
+import type { WebSocket, MessageEvent } from "ws";
 import type { GameServer } from "./server.js";
 import type { Game } from "./game.js";
 import type { Player } from "./player.js";
-import type { DebugMessage } from "./logger.js";
-import { Socket } from "./socket.js";
+import { Severity, type DebugMessage, type LogContext } from "./logger.js";
+import { Socket, type OutboundOptions } from "./socket.js";
+import type { Codec } from "./codecs.js";
+import type { ServerMetrics } from "./metrics.js";
 
+/**
+ * A control message that changes what the debug socket receives.
+ * Every specified field replaces the current setting.
+ */
+type DebugConfig = {
+  /** The severities to receive. */
+  severities?: unknown,
+  /** The IDs of the games whose messages the server debug socket receives. */
+  games?: unknown,
+  /** The players whose messages the server debug socket receives. */
+  players?: unknown;
+};
+
+/**
+ * Streams the debug messages of the server, a game or a player.
+ *
+ * Which severities are sent can be chosen with the `severities` query parameter, e.g. `?severities=error,warning`,
+ * or with a `{ "severities": ["error", "warning"] }` control message. All severities are sent by default.
+ *
+ * The server debug socket can additionally subscribe to games and players with the `games` query parameter, e.g. `?games=<id>,<id>`,
+ * or with a `{ "games": ["<id>"], "players": [{ "game_id": "<id>", "player_id": "<id>", "player_secret": "<secret>" }] }` control message.
+ * Messages of subscribed games and players include their `game_id` and `player_id`.
+ */
 export class DebugSocket<Config extends object = object> extends Socket {
   private readonly server: GameServer<Config> | null;
   private readonly game: Game<Config> | null;
   private readonly player: Player<Config> | null;
+  /** The severities that are sent to the client. */
+  private severities = new Set<Severity>(Object.values(Severity));
+  /** The IDs of the games the server debug socket is subscribed to. */
+  private games = new Set<string>();
+  /** The IDs of the players the server debug socket is subscribed to. */
+  private players = new Set<string>();
 
-  public constructor(socket: WebSocket, server: GameServer<Config> | null, game: Game<Config> | null, player: Player<Config> | null, heartbeatIntervalSeconds: number) {
-    super(socket, heartbeatIntervalSeconds);
+  /**
+   * Creates a new debug socket.
+   * @param socket The `WebSocket` instance to be associated with this socket.
+   * @param server The server to debug or `null`.
+   * @param game The game to debug or `null`.
+   * @param player The player to debug or `null`.
+   * @param heartbeatIntervalSeconds The time between pings in seconds.
+   * @param params The query parameters of the upgrade request.
+   * @param codec The codec that was negotiated for the connection.
+   * @param outbound Options for batching and slow consumers.
+   * @param metrics The registry that the socket's metrics are counted in or `null` if they are not counted.
+   */
+  public constructor(socket: WebSocket, server: GameServer<Config> | null, game: Game<Config> | null, player: Player<Config> | null, heartbeatIntervalSeconds: number, params: URLSearchParams = new URLSearchParams(), codec?: Codec, outbound?: OutboundOptions, metrics: ServerMetrics | null = null) {
+    socket.addEventListener("message", (message: MessageEvent) => this.handleMessage(message));
+    super(socket, heartbeatIntervalSeconds, codec, outbound, metrics);
     this.server = server;
     this.game = game;
     this.player = player;
+    const severities = params.get("severities");
+    const games = params.get("games");
+    this.configure({
+      severities: severities !== null ? severities.split(",").filter((s) => s) : undefined,
+      games: games !== null ? games.split(",").filter((s) => s) : undefined,
+    });
+  }
+
+  /**
+   * Sends a debug message if the client wants to receive its severity.
+   * @param message The debug message.
+   * @param origin The IDs of the game and player that logged the message if it comes from a subscription.
+   */
+  public send(message: DebugMessage, origin?: LogContext) {
+    if (!this.severities.has(message.severity)) return;
+    this.sendRaw(origin ? { ...origin, ...message } : message);
+  }
+
+  /**
+   * Checks whether the socket is subscribed to the messages of a game or player.
+   * @param origin The IDs of the game and player that logged a message.
+   * @returns whether the message should be sent to this socket.
+   */
+  public subscribedTo(origin: LogContext): boolean {
+    if (origin.player_id) return this.players.has(origin.player_id);
+    return !!origin.game_id && this.games.has(origin.game_id);
   }
 
-  public send(message: DebugMessage) {
+  private sendRaw(message: DebugMessage & LogContext) {
     try {
-      this.socket.send(JSON.stringify(message));
+      this.queueMessage(message);
     } catch (err) {
       console.error(err);
     }
   }
 
+  /**
+   * Handles control messages.
+   * @param message The `MessageEvent` to be handled.
+   */
+  private handleMessage(message: MessageEvent) {
+    let config: DebugConfig;
+    try {
+      config = this.decodeMessage(message.data) as DebugConfig;
+    } catch (_err) {
+      this.sendRaw({ severity: Severity.ERROR, message: "Unable to deserialize socket message." });
+      return;
+    }
+    if (typeof config !== "object" || config === null || Array.isArray(config)) {
+      this.sendRaw({ severity: Severity.ERROR, message: "The control message must be an object." });
+      return;
+    }
+    this.configure(config);
+  }
+
+  /**
+   * Applies a control message and reports invalid fields to the client.
+   * @param config The control message.
+   */
+  private configure({ severities, games, players }: DebugConfig) {
+    if (severities !== undefined) {
+      const valid: unknown[] = Object.values(Severity);
+      if (!Array.isArray(severities) || !severities.every((severity) => valid.includes(severity))) {
+        this.sendRaw({ severity: Severity.ERROR, message: `"severities" must be a list of ${valid.join(", ")}.` });
+      } else {
+        this.severities = new Set(severities);
+      }
+    }
+
+    if (games === undefined && players === undefined) return;
+    if (!this.server) {
+      this.sendRaw({ severity: Severity.ERROR, message: "Only the server debug socket can subscribe to games and players." });
+      return;
+    }
+
+    if (games !== undefined) {
+      if (!Array.isArray(games) || !games.every((gameId) => typeof gameId === "string")) {
+        this.sendRaw({ severity: Severity.ERROR, message: `"games" must be a list of game IDs.` });
+      } else {
+        this.games = new Set(games);
+      }
+    }
+
+    if (players !== undefined) {
+      if (!Array.isArray(players)) {
+        this.sendRaw({ severity: Severity.ERROR, message: `"players" must be a list of objects with a game_id, player_id and player_secret.` });
+        return;
+      }
+      const subscribed = new Set<string>();
+      for (const entry of players) {
+        const { game_id, player_id, player_secret } = typeof entry === "object" && entry !== null ? entry : {} as { [index: string]: unknown; };
+        const player = typeof game_id === "string" && typeof player_id === "string" ? this.server.getGame(game_id)?.getPlayer(player_id) : undefined;
+        if (!player || typeof player_secret !== "string" || !player.verifySecret(player_secret)) {
+          this.sendRaw({ severity: Severity.ERROR, message: `Unable to subscribe to player ${player_id}: the game or player does not exist or the secret is wrong.` });
+          continue;
+        }
+        subscribed.add(player.id);
+      }
+      this.players = subscribed;
+    }
+  }
+
   protected onDisconnect(): void {
     if (this.server) this.server.logger.removeDebugSocket(this);
     if (this.game) this.game.logger.removeDebugSocket(this);
@@ -1,6 +1,10 @@
 import type { WebSocket, MessageEvent } from "ws";
 import type { Player } from "./player.js";
-import { Socket } from "./socket.js";
+import { Socket, type OutboundOptions, type SlowConsumerPolicy } from "./socket.js";
+import { validateCommand, type CGE, type ValidationError } from "./cge.js";
+import type { RateLimiter } from "./rate-limiter.js";
+import type { ServerMetrics } from "./metrics.js";
+import type { Codec } from "./codecs.js";
 
 /** Interface representing all possible valid events. */
 export type AnyEvent = {
@@ -14,14 +18,56 @@ export type AnyCommand = {
   data?: object | undefined;
 };
 
-export class GameSocket extends Socket {
+/**
+ * Sent to a game socket whose command was rejected before it reached the game.
+ * The event is only sent to the socket that sent the command and has no sequence number.
+ *
+ * ```
+ * event command_rejected {
+ *   // Why the command was rejected.
+ *   message: string,
+ *   // The values that do not match the CGE file, if any.
+ *   errors: list<validation_error>
+ * }
+ *
+ * type validation_error {
+ *   // The path to the offending value, e.g. "data.position.x".
+ *   path: string,
+ *   message: string
+ * }
+ * ```
+ */
+export type CommandRejectedEvent = {
+  name: "command_rejected",
+  data: {
+    message: string,
+    errors: ValidationError[];
+  };
+};
+
+export class GameSocket<Config extends object = object> extends Socket {
   /** A reference to the player that the socket belongs to. */
-  protected player: Player;
+  protected player: Player<Config>;
+  /** The CGE file that commands are validated against. Validation is skipped if this is `null`. */
+  private readonly cge: CGE | null;
+  /** Limits the commands per player. Commands are not rate limited if this is `null`. */
+  private readonly commandLimiter: RateLimiter | null;
 
-  public constructor(player: Player, socket: WebSocket, heartbeatIntervalSeconds: number) {
+  public constructor(
+    player: Player<Config>,
+    socket: WebSocket,
+    heartbeatIntervalSeconds: number,
+    cge: CGE | null = null,
+    commandLimiter: RateLimiter | null = null,
+    codec?: Codec,
+    outbound?: OutboundOptions,
+    metrics: ServerMetrics | null = null
+  ) {
     socket.addEventListener("message", (message: MessageEvent) => this.handleMessage(message));
-    super(socket, heartbeatIntervalSeconds);
+    super(socket, heartbeatIntervalSeconds, codec, outbound, metrics);
     this.player = player;
+    this.cge = cge;
+    this.commandLimiter = commandLimiter;
   }
 
   /**
@@ -29,41 +75,77 @@ export class GameSocket extends Socket {
    * @param message The `MessageEvent` to be handled.
    */
   private handleMessage(message: MessageEvent) {
+    if (this.commandLimiter && !this.commandLimiter.take(this.player.id)) {
+      this.player.logger.warn(
+        "Command dropped because the rate limit has been exceeded.",
+        { limit: this.commandLimiter.limit, socket_id: this.id }
+      );
+      return;
+    }
     try {
-      const deserialized = JSON.parse(message.data.toString());
-      if (typeof deserialized !== "object") {
+      const deserialized = this.decodeMessage(message.data) as AnyCommand;
+      if (typeof deserialized !== "object" || deserialized === null) {
         this.player.logger.error(
-          "Socket message must represent a JSON object.",
+          "Socket message must represent an object.",
           { raw_message: message.data.toString() }
         );
+        this.reject("Socket message must represent an object.");
       } else if (!deserialized.name) {
         this.player.logger.error(
           "Commands must have a `name` property to be valid.",
           { invalid_command: deserialized }
         );
+        this.reject("Commands must have a `name` property to be valid.");
       } else {
-        this.player.handleCommandInternalWrapper(deserialized);
+        // reserved commands are validated by the game
+        const errors = this.cge && !this.player.isReservedCommand(deserialized.name) ? validateCommand(this.cge, deserialized) : [];
+        if (errors.length > 0) {
+          this.player.logger.error(
+            `Command "${deserialized.name}" does not match the CGE file and was rejected.`,
+            { invalid_command: deserialized, errors }
+          );
+          this.reject(`Command "${deserialized.name}" does not match the CGE file and was rejected.`, errors);
+        } else {
+          this.player.handleCommandInternalWrapper(deserialized);
+        }
       }
     } catch (_err) {
+      this.metrics?.deserializationFailures.inc();
       this.player.logger.error(
         "Unable to deserialize socket message.",
         { raw_message: message.data.toString() }
       );
+      this.reject("Unable to deserialize socket message.");
     }
   }
 
+  /**
+   * Tells the websocket peer that its command was rejected.
+   * @param message Why the command was rejected.
+   * @param errors The values that do not match the CGE file.
+   */
+  private reject(message: string, errors: ValidationError[] = []) {
+    const event: CommandRejectedEvent = { name: "command_rejected", data: { message, errors } };
+    this.send(event);
+  }
+
   /**
    * Sends an event to the socket's websocket peer.
    * @param event The event to send to the websocket's peer.
    */
   public send<E extends AnyEvent = AnyEvent>(message: E) {
     try {
-      this.socket.send(JSON.stringify(message));
+      this.queueMessage(message);
+      this.metrics?.eventsSent.inc();
     } catch (err) {
       console.error(err);
     }
   }
 
+  protected onSlowConsumer(policy: SlowConsumerPolicy, bufferedBytes: number): void {
+    this.player.logger.warn("A game socket is not reading its events fast enough.", { socket_id: this.id, policy, buffered_bytes: bufferedBytes });
+  }
+
   protected onDisconnect(): void {
     this.player.removeGameSocket(this);
   }
@@ -1,33 +1,245 @@
-import { v4 } from "uuid";
-import type { Player } from "./player.js";
-import type { AnyEvent } from "./game-socket.js";
+import { newId } from "./ids.js";
+import type { BotBrain, Player } from "./player.js";
+import type { AnyEvent, AnyCommand } from "./game-socket.js";
 import type { SpectatorSocket } from "./spectator-socket.js";
-import { randomSecret } from "./secret.js";
+import type { RecordingStore } from "./recorder.js";
+import { randomSecret, secretsEqual } from "./secret.js";
 import { Logger } from "./logger.js";
+import { TickLoop } from "./tick-loop.js";
+import { MetricsRegistry, type Counter, type Gauge, type ServerMetrics } from "./metrics.js";
+import { clock } from "./clock.js";
+import { validateCommand, type CGE, type ValidationError } from "./cge.js";
 
 const DEFAULT_MAX_PLAYER_COUNT = 6;
 const DEFAULT_MAX_INACTIVE_MINUTES = 10;
+const DEFAULT_TICK_RATE = 20;
 
-/** An extendable base class for creating games. */
-export abstract class Game<Config extends object = object> {
+/**
+ * The name of the reserved command that players send to signal that they are ready.
+ * If the game waits for its players to be ready (see `enableAutoStart`), the command is handled
+ * by the server library and does not need to be declared in the CGE file.
+ * Otherwise it is an ordinary command of the game.
+ */
+export const READY_COMMAND = "ready";
+
+/**
+ * The names of the reserved commands that only the host can send.
+ * They are validated by the server library and do not need to be declared in the CGE file.
+ *
+ * - `host_kick { player_id: string }` removes a player from the game.
+ * - `host_set_joinable { joinable: bool }` unlocks or locks joining.
+ * - `host_start {}` starts the game.
+ * - `host_update_config { config: object }` changes the fields of the config that `mutableConfigFields` allows.
+ * - `host_transfer { player_id: string }` makes another player the host.
+ */
+export const HOST_COMMANDS: readonly string[] = Object.freeze(["host_kick", "host_set_joinable", "host_start", "host_update_config", "host_transfer"]);
+
+/** The lifecycle states of a game. */
+export enum GameState {
+  /** The game is waiting for players. */
+  LOBBY = "lobby",
+  RUNNING = "running",
+  FINISHED = "finished"
+}
+
+/** Receives the events of a game instead of its players and spectators, e.g. to send them from another thread, and learns about removed players. */
+export interface EventSink {
+  /**
+   * Receives an event sent to a single player.
+   * @param playerId The ID of the player.
+   * @param event The event.
+   */
+  send(playerId: string, event: AnyEvent): void;
+  /**
+   * Receives an event broadcast to everyone in the game.
+   * @param event The event.
+   * @param omitPlayersById The IDs of the players to which the event should not be sent.
+   */
+  broadcast(event: AnyEvent, omitPlayersById: string[]): void;
+  /**
+   * Is told that a player was removed from the game.
+   * @param playerId The ID of the removed player.
+   */
+  playerRemoved(playerId: string): void;
+}
+
+/**
+ * Broadcast by `broadcastNotice`, e.g. when a server operator sends a notice through the admin API.
+ *
+ * ```
+ * event server_notice {
+ *   message: string
+ * }
+ * ```
+ */
+export type ServerNoticeEvent = {
+  name: "server_notice",
+  data: {
+    message: string;
+  };
+};
+
+/**
+ * Broadcast by `broadcastShutdown` when the server shuts down gracefully.
+ *
+ * ```
+ * event server_shutdown {
+ *   // The time in seconds until the game is terminated.
+ *   grace_period_seconds: float
+ * }
+ * ```
+ */
+export type ServerShutdownEvent = {
+  name: "server_shutdown",
+  data: {
+    grace_period_seconds: number;
+  };
+};
+
+/**
+ * Broadcast when another player becomes the host or the host secret becomes valid again.
+ *
+ * ```
+ * event host_changed {
+ *   // The ID of the new host or null if whoever holds the host secret is the host.
+ *   player_id: string
+ * }
+ * ```
+ */
+export type HostChangedEvent = {
+  name: "host_changed",
+  data: {
+    player_id: string | null;
+  };
+};
+
+/**
+ * Broadcast by `kickPlayer` before the player is removed, so that the kicked player receives it as well.
+ *
+ * ```
+ * event player_kicked {
+ *   player_id: string
+ * }
+ * ```
+ */
+export type PlayerKickedEvent = {
+  name: "player_kicked",
+  data: {
+    player_id: string;
+  };
+};
+
+/**
+ * Broadcast by `setJoinable` when the host locks or unlocks joining.
+ *
+ * ```
+ * event joining_changed {
+ *   joinable: bool
+ * }
+ * ```
+ */
+export type JoiningChangedEvent = {
+  name: "joining_changed",
+  data: {
+    joinable: boolean;
+  };
+};
+
+/**
+ * Broadcast when the game moves from the lobby to the running state, whether it was started by the host or automatically.
+ *
+ * ```
+ * event game_started {}
+ * ```
+ */
+export type GameStartedEvent = {
+  name: "game_started",
+  data: {};
+};
+
+/**
+ * Broadcast by `updateConfig` with the sanitized config after the host changed it.
+ *
+ * ```
+ * event config_changed {
+ *   config: config
+ * }
+ * ```
+ */
+export type ConfigChangedEvent = {
+  name: "config_changed",
+  data: {
+    config: object;
+  };
+};
+
+/**
+ * The standard events broadcast by `Game`. They are not part of the game's own events,
+ * so clients that want to handle them should declare them in the CGE file as shown on each event type.
+ */
+export type BuiltinEvent =
+  | ServerNoticeEvent
+  | ServerShutdownEvent
+  | HostChangedEvent
+  | PlayerKickedEvent
+  | JoiningChangedEvent
+  | GameStartedEvent
+  | ConfigChangedEvent;
+
+/**
+ * An extendable base class for creating games.
+ *
+ * `Events` and `Commands` can be narrowed to the types generated from
+ * the CGE file (see `generateTypes`) for compile-time checks of all
+ * events sent and commands handled.
+ */
+export abstract class Game<Config extends object = object, Events extends AnyEvent = AnyEvent, Commands extends AnyCommand = AnyCommand> {
   /** The maximum amount of players allowed in one game at a time. */
   protected readonly MAX_PLAYER_COUNT: number;
   /** The maximum inactive time of a player in minutes. */
   protected readonly MAX_INACTIVE_TIME_MINUTES: number;
   /** The game's game ID. */
-  public readonly id = v4();
+  public readonly id = newId();
   /** Whether the game is protected. */
   public readonly protected: boolean;
   /** The game's join secret. */
   public readonly secret: string = randomSecret();
+  /** The secret that makes the creator of the game its host until they transfer the role to a player. */
+  public readonly hostSecret: string = randomSecret();
+  /** The ID of the player that is the host or `null` if the host is whoever holds the host secret. */
+  private hostPlayerId: string | null = null;
   /** Custom config options provided at creation time. */
   public readonly config: Config;
   /** The players in the game. */
-  private readonly players: { [index: string]: Player; } = {};
+  private readonly players: { [index: string]: Player<Config, Events, Commands>; } = {};
   /** The sockets spectating the game. */
   private readonly spectators: { [index: string]: SpectatorSocket<Config>; } = {};
-  public readonly logger = new Logger<Config>();
+  public readonly logger = new Logger<Config>(() => ({ game_id: this.id }));
   private joiningAllowed = true;
+  /** The current lifecycle state. */
+  private state = GameState.LOBBY;
+  /** The IDs of the players that sent the ready command. */
+  private readonly readyPlayers = new Set<string>();
+  /** The rule for starting the game automatically or `null` if the game is started manually. */
+  private autoStart: { minPlayerCount: number, requireReady: boolean; } | null = null;
+  /** The store that all outgoing events are recorded to or `null` if the game is not recorded. */
+  private recordingStore: RecordingStore | null = null;
+  /** The game loop or `undefined` if ticking has never been started. */
+  private tickLoop?: TickLoop;
+  /** Player IDs mapped to the name of the team they belong to. */
+  private readonly playerTeams: { [index: string]: string; } = {};
+  /** The teams that new players are distributed across or `null` if teams are assigned manually. */
+  private balancedTeams: string[] | null = null;
+  /** Whether `broadcastEvent` is currently handing an event to the players, which has already been recorded as a broadcast. */
+  private broadcasting = false;
+  /** Receives all events of the game instead of its players and spectators or `null` if the game sends its events itself. */
+  private eventSink: EventSink | null = null;
+  /** The registry of the server that exposes the game's metrics or `null` if the game's metrics are not exposed. */
+  private metrics: ServerMetrics | null = null;
+  /** Register the custom metrics of the game with the registry of the server once it is known. */
+  private readonly metricRegistrations: ((registry: MetricsRegistry) => void)[] = [];
+  /** The CGE file that the commands of bots are validated against or `null` if they are not validated. */
+  private cge: CGE | null = null;
 
   /**
    * Creates a new game.
@@ -88,28 +300,224 @@ export abstract class Game<Config extends object = object> {
    * @returns whether the secret is valid.
   */
   public verifySecret(secret: string): boolean {
-    return this.secret === secret;
+    return secretsEqual(secret, this.secret);
+  }
+
+  /**
+   * Verifies if a given host secret is correct.
+   * The host secret is only valid as long as the host role has not been transferred to a player.
+   * @param secret A given host secret.
+   * @returns whether the secret is valid.
+   */
+  public verifyHostSecret(secret: string): boolean {
+    return this.hostPlayerId === null && secretsEqual(secret, this.hostSecret);
+  }
+
+  /**
+   * Gets the maximum amount of players allowed in the game at a time.
+   * @returns the `MAX_PLAYER_COUNT`.
+   */
+  public getMaxPlayerCount(): number {
+    return this.MAX_PLAYER_COUNT;
   }
 
   /**
-   * Checks if the game has any active players.
+   * Gets the maximum time a player may be disconnected before they are terminated.
+   * @returns the `MAX_INACTIVE_TIME_MINUTES`.
+   */
+  public getMaxInactiveTimeMinutes(): number {
+    return this.MAX_INACTIVE_TIME_MINUTES;
+  }
+
+  /**
+   * Hands all events of the game and its players to a sink instead of sending them to sockets and recording them,
+   * e.g. so that they can be sent by another thread that mirrors the game.
+   * @param sink The sink that receives the events.
+   */
+  public forwardEventsTo(sink: EventSink) {
+    this.eventSink = sink;
+  }
+
+  /**
+   * Gets the sink that receives the events of the game.
+   * @returns the sink or `null` if the game sends its events itself.
+   */
+  public getEventSink(): EventSink | null {
+    return this.eventSink;
+  }
+
+  /**
+   * Checks if the game has any active players. Bots do not keep a game alive.
    * @returns whether there are active players or they have not been inactive for too long.
    */
   public active() {
     let active = false;
-    const now = Date.now();
+    const now = clock.now();
     for (const player of Object.values(this.players)) {
-      if (player.active() || player.inactiveSince > now - this.MAX_INACTIVE_TIME_MINUTES * 60 * 1000) active = true;
+      if (player.isBot()) continue;
+      if (player.active() || player.inactiveSince > now - this.getMaxInactiveTimeMinutes() * 60 * 1000) active = true;
       else player.terminate();
     }
     return active;
   }
 
-  /** Terminates all attached websocket connections. */
-  public terminate() {
-    this.logger.warn("This game is being terminated due to inactivity.");
+  /**
+   * Terminates all attached websocket connections.
+   * @param reason Why the game is terminated. The default is `"inactivity"`.
+   */
+  public terminate(reason = "inactivity") {
+    this.logger.warn(`This game is being terminated due to ${reason}.`);
     for (const player of Object.values(this.players)) {
-      player.terminate();
+      player.terminate(reason);
+    }
+    for (const spectator of Object.values(this.spectators)) {
+      spectator.terminate();
+    }
+    if (this.tickLoop) this.tickLoop.stop();
+    if (this.metrics) this.metrics.remove({ game_id: this.id });
+    if (this.recordingStore) this.recordingStore.finish(this.id);
+  }
+
+  /**
+   * Starts the built-in fixed-timestep game loop, which calls `onTick` `tickRate` times per second.
+   *
+   * The loop is stopped automatically when the game is terminated. A warning is
+   * logged whenever a tick takes longer than its share of a second.
+   * @param tickRate The number of ticks per second. The default is 20.
+   * @throws if the loop has already been started.
+   */
+  protected startTicking(tickRate: number = DEFAULT_TICK_RATE) {
+    if (this.tickLoop) throw "The game loop has already been started.";
+    this.tickLoop = new TickLoop(tickRate > 0 ? tickRate : DEFAULT_TICK_RATE, (delta) => this.onTick(delta), (message, data) => this.logger.warn(message, data));
+    this.tickLoop.start();
+    this.logger.info(`Started the game loop at ${this.tickLoop.TICK_RATE} ticks per second.`);
+  }
+
+  /** Pauses the game loop until `resumeTicking` is called. */
+  protected pauseTicking() {
+    if (!this.tickLoop?.running()) return;
+    this.tickLoop.stop();
+    this.logger.info("Paused the game loop.");
+  }
+
+  /** Resumes the game loop after it has been paused. The time spent paused is not simulated. */
+  protected resumeTicking() {
+    if (!this.tickLoop || this.tickLoop.running()) return;
+    this.tickLoop.start();
+    this.logger.info("Resumed the game loop.");
+  }
+
+  /** Whether the game loop is currently running. */
+  public ticking(): boolean {
+    return this.tickLoop?.running() || false;
+  }
+
+  /**
+   * Runs once per tick while the game loop started with `startTicking` is running.
+   * @param delta The fixed duration of a tick in seconds.
+   */
+  protected onTick(delta: number): void { }
+
+  /**
+   * Exposes the metrics of the game, including the counters of its players and sockets, through the registry of a server.
+   * @param registry The registry of the server.
+   */
+  public exposeMetrics(registry: ServerMetrics) {
+    this.metrics = registry;
+    for (const register of this.metricRegistrations) {
+      try {
+        register(registry);
+      } catch (err) {
+        this.logger.error(`Unable to expose a custom metric: ${err}`);
+      }
+    }
+  }
+
+  /**
+   * Gets the registry that the game's metrics are exposed by.
+   * @returns the registry or `null` if the game's metrics are not exposed, e.g. in tests without a `GameServer`.
+   */
+  public getMetrics(): ServerMetrics | null {
+    return this.metrics;
+  }
+
+  /**
+   * Validates the commands of bots against a CGE file, like the commands that game sockets receive.
+   * @param cge The parsed CGE file.
+   */
+  public validateBotCommandsAgainst(cge: CGE) {
+    this.cge = cge;
+  }
+
+  /**
+   * Validates a command of a bot. Reserved commands are validated by the game.
+   * @param command The command.
+   * @returns a list of validation errors, which is empty if the command is valid or there is no CGE file to validate against.
+   */
+  public validateBotCommand(command: AnyCommand): ValidationError[] {
+    if (!this.cge || this.isReservedCommand(command.name)) return [];
+    return validateCommand(this.cge, command);
+  }
+
+  /**
+   * Registers a custom counter that is exposed by the `/api/metrics` route with this game's ID as the `game_id` label.
+   * The game's series is removed when the game is terminated.
+   * @param name The metric name, e.g. `mygame_moves_total`.
+   * @param help A description of the metric.
+   * @returns a function that increases the counter by `amount`, which defaults to `1`.
+   * @throws if the name is invalid or, once the game is exposed by a server, already used by a gauge.
+   */
+  protected registerCounter(name: string, help: string): (amount?: number) => void {
+    let counter: Counter | null = null;
+    this.registerMetric(name, (registry) => counter = registry.counter(name, help));
+    return (amount = 1) => counter?.inc(amount, { game_id: this.id });
+  }
+
+  /**
+   * Registers a custom gauge that is exposed by the `/api/metrics` route with this game's ID as the `game_id` label.
+   * The game's series is removed when the game is terminated.
+   * @param name The metric name, e.g. `mygame_bullets`.
+   * @param help A description of the metric.
+   * @returns a function that sets the gauge to `value`.
+   * @throws if the name is invalid or, once the game is exposed by a server, already used by a counter.
+   */
+  protected registerGauge(name: string, help: string): (value: number) => void {
+    let gauge: Gauge | null = null;
+    this.registerMetric(name, (registry) => gauge = registry.gauge(name, help));
+    return (value) => gauge?.set(value, { game_id: this.id });
+  }
+
+  /**
+   * Registers a custom metric now if the game is exposed by a server and otherwise once it is.
+   * @param name The metric name.
+   * @param register Registers the metric with a registry.
+   * @throws if the name is invalid.
+   */
+  private registerMetric(name: string, register: (registry: MetricsRegistry) => void) {
+    MetricsRegistry.validateName(name);
+    this.metricRegistrations.push(register);
+    if (this.metrics) register(this.metrics);
+  }
+
+  /**
+   * Starts recording all events that are broadcast or sent to individual players.
+   * The recording is finished when the game is terminated.
+   * @param store The store to write the recording to.
+   */
+  public startRecording(store: RecordingStore) {
+    this.recordingStore = store;
+    this.logger.info("This game is being recorded.");
+  }
+
+  /**
+   * Records an event that was sent to a single player.
+   * Events that are part of a broadcast are skipped because the broadcast itself is recorded.
+   * @param playerId The ID of the player the event was sent to.
+   * @param event The event.
+   */
+  public recordPlayerEvent(playerId: string, event: AnyEvent) {
+    if (this.recordingStore && !this.broadcasting) {
+      this.recordingStore.append(this.id, { timestamp: clock.now(), player_id: playerId, event });
     }
   }
 
@@ -118,33 +526,90 @@ export abstract class Game<Config extends object = object> {
    * @param event The event to send to everyone in the game.
    * @param omitPlayersById The IDs of the players to which the event should not be sent.
    */
-  protected broadcastEvent<E extends AnyEvent = AnyEvent>(event: E, ...omitPlayersById: string[]) {
+  protected broadcastEvent<E extends Events = Events>(event: E, ...omitPlayersById: string[]) {
+    this.broadcastToEveryone(event, omitPlayersById);
+  }
+
+  /**
+   * Broadcasts one of the game's events or one of the standard events to all players and spectators in the game.
+   * @param event The event to send to everyone in the game.
+   * @param omitPlayersById The IDs of the players to which the event should not be sent.
+   */
+  private broadcastToEveryone(event: Events | BuiltinEvent, omitPlayersById: string[]) {
+    if (this.eventSink) {
+      this.eventSink.broadcast(event, omitPlayersById);
+      return;
+    }
     this.logger.trace(`Broadcasting "${event.name}" event to all players...`, { event });
-    for (const [playerId, player] of Object.entries(this.players)) {
-      if (omitPlayersById.includes(playerId)) continue;
-      player.sendEvent(event);
+    if (this.recordingStore) {
+      this.recordingStore.append(this.id, { timestamp: clock.now(), player_id: null, omitted_player_ids: omitPlayersById, event });
+    }
+    this.broadcasting = true;
+    try {
+      for (const [playerId, player] of Object.entries(this.players)) {
+        if (omitPlayersById.includes(playerId)) continue;
+        player.sendEvent(event);
+      }
+    } finally {
+      this.broadcasting = false;
     }
     for (const spectator of Object.values(this.spectators)) {
       spectator.send(event);
     }
   }
 
+  /**
+   * Handles commands that are reserved by the server library before they reach `Player.handleCommand`.
+   * @param player The player that sent the command.
+   * @param command The command.
+   * @returns whether the command was reserved and has been handled.
+   */
+  public handleReservedCommand(player: Player<Config, Events, Commands>, command: Commands): boolean {
+    if (!this.isReservedCommand(command.name)) return false;
+    if (command.name === READY_COMMAND) this.markReady(player);
+    else this.handleHostCommand(player, command);
+    return true;
+  }
+
+  /**
+   * Checks whether a command is handled by `handleReservedCommand` instead of `Player.handleCommand`.
+   * Reserved commands are validated by the game, so they are not validated against the CGE file.
+   * @param name The name of the command.
+   * @returns whether the command is a host command or the `ready` command of a game that waits for its players to be ready.
+   */
+  public isReservedCommand(name: string): boolean {
+    return HOST_COMMANDS.includes(name) || (name === READY_COMMAND && !!this.autoStart?.requireReady);
+  }
+
+  /**
+   * Runs before a command is passed on to `Player.handleCommand` and is able to reject it.
+   *
+   * The default implementation allows all commands.
+   * Implementations should log the reason for rejecting a command to the player's logger.
+   * @param player The player that sent the command.
+   * @param command The command.
+   * @returns whether the command should be handled.
+   */
+  public commandAllowed(player: Player<Config, Events, Commands>, command: Commands): boolean {
+    return true;
+  }
+
   /**
    * Creates a new player.
    * @param username The username to assign to the new player.
    */
-  protected abstract createPlayer(username: string): Player;
+  protected abstract createPlayer(username: string): Player<Config, Events, Commands>;
 
   /**
    * Checks if the maximum player count has been reached.
    * @returns `true` if the maximum player count has been reached.
    */
   public full(): boolean {
-    return !(this.getPlayerCount() < this.MAX_PLAYER_COUNT);
+    return !(this.getPlayerCount() < this.getMaxPlayerCount());
   }
 
   /** Allows new players to join as long as the game is not full yet. */
-  protected allowJoining() {
+  public allowJoining() {
     this.joiningAllowed = true;
     this.logger.warn("Joining has been re-allowed.");
   }
@@ -155,7 +620,7 @@ export abstract class Game<Config extends object = object> {
    * This is useful for round-based games where joining
    * after a certain point in time might mess the game logic up.
    */
-  protected disallowJoining() {
+  public disallowJoining() {
     this.joiningAllowed = false;
     this.logger.warn("Joining has been disallowed temporarily.");
   }
@@ -165,26 +630,348 @@ export abstract class Game<Config extends object = object> {
    * 
    * Note that this has nothing to do with the game being full.
    * This is strictly a game logic based prevention measure.
+   * Finished games are never joinable.
    */
   public joinable() {
-    return this.joiningAllowed;
+    return this.joiningAllowed && this.getState() !== GameState.FINISHED;
+  }
+
+  public getState(): GameState {
+    return this.state;
+  }
+
+  /**
+   * Starts the game by moving it from the lobby to the running state.
+   * @throws if the game is not in the lobby.
+   */
+  protected start() {
+    if (this.state !== GameState.LOBBY) throw "Only games in the lobby can be started.";
+    this.state = GameState.RUNNING;
+    this.logger.info("The game has started.");
+    this.broadcastBuiltinEvent({ name: "game_started", data: {} });
+    this.gameStarted();
+  }
+
+  /** Moves the game to the finished state. Calling this on a finished game has no effect. */
+  protected finish() {
+    if (this.state === GameState.FINISHED) return;
+    this.state = GameState.FINISHED;
+    this.logger.info("The game has finished.");
+    this.gameFinished();
+  }
+
+  /** Runs when the game has moved from the lobby to the running state. */
+  protected gameStarted(): void { }
+
+  /** Runs when the game has moved to the finished state. */
+  protected gameFinished(): void { }
+
+  /**
+   * Starts the game automatically once enough players have joined.
+   *
+   * If `requireReady` is `true`, all players must also have sent the reserved `ready` command.
+   * @param minPlayerCount The number of players required to start the game. The minimum is 1.
+   * @param requireReady Whether all players must be ready. The default is `true`.
+   */
+  protected enableAutoStart(minPlayerCount: number, requireReady = true) {
+    this.autoStart = { minPlayerCount: Math.max(minPlayerCount, 1), requireReady };
+    this.checkAutoStart();
+  }
+
+  /**
+   * Checks whether a player has sent the ready command.
+   * @param playerId The player ID.
+   * @returns whether the player is ready.
+   */
+  public isReady(playerId: string): boolean {
+    return this.readyPlayers.has(playerId);
+  }
+
+  public getReadyPlayerCount(): number {
+    return this.readyPlayers.size;
+  }
+
+  /**
+   * Marks a player as ready and starts the game if the auto-start rule is met.
+   * @param player The player that is ready.
+   */
+  private markReady(player: Player<Config, Events, Commands>) {
+    if (this.state !== GameState.LOBBY) {
+      player.logger.warn("The ready command has no effect because the game is not in the lobby.");
+      return;
+    }
+    if (this.readyPlayers.has(player.id)) return;
+    this.readyPlayers.add(player.id);
+    this.logger.info(`${player.username} (${player.id}) is ready. (${this.readyPlayers.size}/${this.getPlayerCount()} ready)`);
+    this.playerReady(player);
+    this.checkAutoStart();
+  }
+
+  /**
+   * Runs whenever a player sends the ready command while the game is in the lobby.
+   * @param player The player that is ready.
+   */
+  protected playerReady(player: Player<Config, Events, Commands>): void { }
+
+  /** Starts the game if it is in the lobby and the auto-start rule is met. */
+  private checkAutoStart() {
+    if (!this.autoStart || this.state !== GameState.LOBBY) return;
+    if (this.getPlayerCount() < this.autoStart.minPlayerCount) return;
+    if (this.autoStart.requireReady && this.readyPlayers.size < this.getPlayerCount()) return;
+    this.start();
+  }
+
+  /**
+   * Assigns every new player to the team with the fewest members.
+   * Ties are broken by the order of `teams`.
+   * @param teams The names of the teams.
+   */
+  protected enableTeamBalancing(teams: string[]) {
+    this.balancedTeams = teams.length > 0 ? [...teams] : null;
+  }
+
+  /**
+   * Moves a player to a team.
+   * @param player The player.
+   * @param team The name of the team or `null` to remove the player from their team.
+   */
+  protected assignTeam(player: Player<Config, Events, Commands>, team: string | null) {
+    if (team === null) delete this.playerTeams[player.id];
+    else this.playerTeams[player.id] = team;
+    this.logger.info(team === null ? `${player.username} (${player.id}) left their team.` : `${player.username} (${player.id}) joined team ${team}.`);
+  }
+
+  /**
+   * Gets the team of a player.
+   * @param playerId The player ID.
+   * @returns the name of the team or `null` if the player is not in a team.
+   */
+  public getTeam(playerId: string): string | null {
+    return this.playerTeams[playerId] ?? null;
+  }
+
+  /**
+   * Gets all teams and their members.
+   * @returns team names mapped to the IDs of their members. Balanced teams are included even if they are empty.
+   */
+  public getTeams(): { [index: string]: string[]; } {
+    const teams: { [index: string]: string[]; } = {};
+    for (const team of this.balancedTeams || []) teams[team] = [];
+    for (const [playerId, team] of Object.entries(this.playerTeams)) {
+      if (!teams[team]) teams[team] = [];
+      teams[team].push(playerId);
+    }
+    return teams;
+  }
+
+  /**
+   * Gets the members of a team.
+   * @param team The name of the team.
+   * @returns the players in the team.
+   */
+  public getTeamMembers(team: string): Player<Config, Events, Commands>[] {
+    return Object.entries(this.playerTeams).filter(([, t]) => t === team).map(([playerId]) => this.players[playerId]);
+  }
+
+  /**
+   * Sends an event to all members of a team.
+   * @param team The name of the team.
+   * @param event The event to send to the team.
+   * @param omitPlayersById The IDs of the players to which the event should not be sent.
+   */
+  protected sendToTeam<E extends Events = Events>(team: string, event: E, ...omitPlayersById: string[]) {
+    this.logger.trace(`Sending "${event.name}" event to team ${team}...`, { event });
+    for (const player of this.getTeamMembers(team)) {
+      if (omitPlayersById.includes(player.id)) continue;
+      player.sendEvent(event);
+    }
+  }
+
+  /**
+   * Gets the team that a new player is assigned to.
+   * @returns the balanced team with the fewest members or `null` if team balancing is disabled.
+   */
+  private smallestTeam(): string | null {
+    if (!this.balancedTeams) return null;
+    const teams = this.getTeams();
+    return this.balancedTeams.reduce((smallest, team) => teams[team].length < teams[smallest].length ? team : smallest);
+  }
+
+  public getSpectatorCount(): number {
+    return Object.keys(this.spectators).length;
+  }
+
+  /**
+   * Broadcasts the standard `server_notice` event to all players and spectators in the game.
+   * @param message The notice from the server operator.
+   */
+  public broadcastNotice(message: string) {
+    this.broadcastBuiltinEvent({ name: "server_notice", data: { message } });
+  }
+
+  /**
+   * Broadcasts one of the standard events.
+   * @param event The event, which is not part of `Events`.
+   */
+  private broadcastBuiltinEvent(event: BuiltinEvent) {
+    this.broadcastToEveryone(event, []);
+  }
+
+  /**
+   * Gets the player that is the host.
+   * @returns the host or `null` if the host is whoever holds the host secret.
+   */
+  public getHost(): Player<Config, Events, Commands> | null {
+    return this.hostPlayerId !== null ? this.players[this.hostPlayerId] ?? null : null;
+  }
+
+  /**
+   * Makes a player the host. The host secret becomes invalid.
+   * @param player The new host.
+   * @throws if the player is not in the game or is a bot.
+   */
+  public transferHost(player: Player<Config, Events, Commands>) {
+    if (this.players[player.id] !== player) throw "Only players in the game can become the host.";
+    if (player.isBot()) throw "Bots cannot become the host.";
+    this.hostPlayerId = player.id;
+    this.logger.info(`${player.username} (${player.id}) is now the host.`);
+    this.broadcastBuiltinEvent({ name: "host_changed", data: { player_id: player.id } });
+  }
+
+  /**
+   * Removes a player from the game on behalf of the host.
+   * @param player The player to kick.
+   * @throws if the player is the host.
+   */
+  public kickPlayer(player: Player<Config, Events, Commands>) {
+    if (player.id === this.hostPlayerId) throw "The host cannot kick themselves.";
+    if (this.players[player.id] !== player) return;
+    this.broadcastBuiltinEvent({ name: "player_kicked", data: { player_id: player.id } });
+    this.removePlayer(player);
+    player.terminate("being kicked by the host");
+  }
+
+  /**
+   * Unlocks or locks joining on behalf of the host.
+   * @param joinable Whether new players may join.
+   */
+  public setJoinable(joinable: boolean) {
+    if (joinable) this.allowJoining();
+    else this.disallowJoining();
+    this.broadcastBuiltinEvent({ name: "joining_changed", data: { joinable } });
+  }
+
+  /**
+   * Starts the game on behalf of the host.
+   * @throws if the game is not in the lobby.
+   */
+  public startByHost() {
+    this.start();
+  }
+
+  /**
+   * Changes config fields on behalf of the host. The changed config is run through `configSanitizer` again.
+   * @param changes The new values of the fields to change.
+   * @throws if the changes are not an object or contain fields that `mutableConfigFields` does not allow.
+   */
+  public updateConfig(changes: object) {
+    if (typeof changes !== "object" || changes === null || Array.isArray(changes)) throw "The config changes must be an object.";
+    const mutable: string[] = this.mutableConfigFields().map(String);
+    const immutable = Object.keys(changes).filter((field) => !mutable.includes(field));
+    if (immutable.length > 0) throw `The config fields ${immutable.join(", ")} cannot be changed.`;
+    Object.assign(this.config, this.configSanitizer({ ...this.config, ...changes }));
+    this.logger.info("The host changed the config.", { changes });
+    this.configUpdated();
+    this.broadcastBuiltinEvent({ name: "config_changed", data: { config: this.config } });
+  }
+
+  /**
+   * Decides which config fields the host can change with `updateConfig`.
+   * @returns the names of the mutable fields. By default no fields are mutable.
+   */
+  protected mutableConfigFields(): (keyof Config)[] {
+    return [];
+  }
+
+  /** Runs after the host has changed the config. */
+  protected configUpdated(): void { }
+
+  /**
+   * Makes the player that joined first the host after the host left. Bots never become the host.
+   * If only bots are left, the host secret becomes valid again.
+   */
+  private passOnHost() {
+    const next = Object.values(this.players).find((player) => !player.isBot());
+    if (next) {
+      this.transferHost(next);
+      return;
+    }
+    this.hostPlayerId = null;
+    this.logger.info("The host left and the host secret is valid again.");
+    this.broadcastBuiltinEvent({ name: "host_changed", data: { player_id: null } });
+  }
+
+  /**
+   * Performs a host command if the player is the host and logs why it failed otherwise.
+   * @param player The player that sent the command.
+   * @param command The host command.
+   */
+  private handleHostCommand(player: Player<Config, Events, Commands>, command: Commands) {
+    if (player.id !== this.hostPlayerId) {
+      player.logger.error(`Command "${command.name}" can only be sent by the host.`, { command });
+      return;
+    }
+    const data = (command.data || {}) as { player_id?: unknown, joinable?: unknown, config?: unknown; };
+    const target = typeof data.player_id === "string" ? this.getPlayer(data.player_id) : undefined;
+    try {
+      switch (command.name) {
+        case "host_kick":
+          if (!target) throw "Player not found.";
+          this.kickPlayer(target);
+          break;
+        case "host_set_joinable":
+          if (typeof data.joinable !== "boolean") throw "Please specify `joinable` as a boolean.";
+          this.setJoinable(data.joinable);
+          break;
+        case "host_start":
+          this.startByHost();
+          break;
+        case "host_update_config":
+          this.updateConfig(data.config as object);
+          break;
+        case "host_transfer":
+          if (!target) throw "Player not found.";
+          this.transferHost(target);
+          break;
+      }
+    } catch (err) {
+      player.logger.error(`Command "${command.name}" failed: ${err}`, { command });
+    }
+  }
+
+  /**
+   * Broadcasts the standard `server_shutdown` event to all players and spectators in the game.
+   * @param gracePeriodSeconds The time in seconds until the game is terminated.
+   */
+  public broadcastShutdown(gracePeriodSeconds: number) {
+    this.broadcastBuiltinEvent({ name: "server_shutdown", data: { grace_period_seconds: gracePeriodSeconds } });
   }
 
   public getPlayerCount(): number {
     return Object.keys(this.players).length;
   }
 
-  public getPlayers(): Readonly<{ [index: string]: Player; }> {
+  public getPlayers(): Readonly<{ [index: string]: Player<Config, Events, Commands>; }> {
     return this.players;
   }
 
   /**
    * Gets a player by their player ID.
    * @param playerId The player ID.
-   * @returns the player.
+   * @returns the player or `undefined` if there is no player with the ID.
    */
-  public getPlayer(playerId: string): Player {
-    return this.players[playerId];
+  public getPlayer(playerId: string): Player<Config, Events, Commands> | undefined {
+    return Object.prototype.hasOwnProperty.call(this.players, playerId) ? this.players[playerId] : undefined;
   }
 
   /**
@@ -193,36 +980,123 @@ export abstract class Game<Config extends object = object> {
    * @returns The new player.
    * @throws if the `MAX_PLAYER_COUNT` is reached.
    */
-  public addPlayer(username: string): Player {
+  public addPlayer(username: string): Player<Config, Events, Commands> {
+    if (this.full()) throw "The game is full.";
+    return this.admitPlayer(this.createPlayer(username));
+  }
+
+  /**
+   * Creates and adds a bot to the game.
+   *
+   * Bots are players that are created with `createPlayer`, receive their events through their brain
+   * and send their commands like any other player. They are never terminated for inactivity.
+   * @param brain The brain that controls the bot. The default is the brain returned by `createBotBrain`.
+   * @param username The username of the bot. The default is `Bot <n>`.
+   * @returns The new bot.
+   * @throws if the `MAX_PLAYER_COUNT` is reached, the game does not support bots or the game runs in a worker thread.
+   */
+  public addBot(brain: BotBrain<Events, Commands> | null = this.createBotBrain(), username?: string): Player<Config, Events, Commands> {
+    // the brain would never receive the events, which are sent by the main thread
+    if (this.eventSink) throw "Bots are not supported when games run in worker threads.";
     if (this.full()) throw "The game is full.";
-    const newPlayer = this.createPlayer(username);
+    if (!brain) throw "The game does not support bots.";
+    const bot = this.createPlayer(username || `Bot ${Object.values(this.players).filter((player) => player.isBot()).length + 1}`);
+    bot.controlBy(brain);
+    return this.admitPlayer(bot);
+  }
+
+  /**
+   * Adds bots until the game is full, e.g. so that a single player can practice against AI.
+   * @param count The maximum number of bots to add. By default all empty slots are filled.
+   * @returns The new bots.
+   * @throws if the game does not support bots.
+   */
+  public fillWithBots(count = Infinity): Player<Config, Events, Commands>[] {
+    const bots: Player<Config, Events, Commands>[] = [];
+    while (bots.length < count && !this.full()) bots.push(this.addBot());
+    return bots;
+  }
+
+  /**
+   * Creates the brain of a new bot.
+   *
+   * Override this method to let the server fill empty slots with bots.
+   * @returns the brain or `null` if the game does not support bots, which is the default.
+   */
+  protected createBotBrain(): BotBrain<Events, Commands> | null {
+    return null;
+  }
+
+  /**
+   * Adds a newly created player to the game.
+   * @param newPlayer The new player.
+   * @returns The new player.
+   */
+  private admitPlayer(newPlayer: Player<Config, Events, Commands>): Player<Config, Events, Commands> {
     this.players[newPlayer.id] = newPlayer;
+    newPlayer.logger.setParent(this.logger);
     this.logger.info(`${newPlayer.username} (${newPlayer.id}) joined the game.`);
+    const team = this.smallestTeam();
+    if (team !== null) this.assignTeam(newPlayer, team);
+    this.registerPlayer(newPlayer);
     this.playerAdded(newPlayer);
+    this.checkAutoStart();
     return newPlayer;
   }
 
+  /**
+   * Runs before `playerAdded` whenever a player or a bot is added to the game, so also before the auto-start is checked.
+   * Extendable base classes like `TurnBasedGame` override this to keep track of their players and call `super`.
+   * @param player The new player.
+   */
+  protected registerPlayer(player: Player<Config, Events, Commands>): void { }
+
   /**
    * Runs whenever a player is added to the game.
    * @param player The player that joined.
    */
-  protected abstract playerAdded(player: Player): void;
+  protected abstract playerAdded(player: Player<Config, Events, Commands>): void;
 
   /**
    * Removes a player from the game.
    * @param player The player to remove from the game.
    */
-  public removePlayer(player: Player) {
+  public removePlayer(player: Player<Config, Events, Commands>) {
     this.logger.info(`Player ${player.username} (${player.id}) left the game.`);
     this.playerRemoved(player);
     delete this.players[player.id];
+    delete this.playerTeams[player.id];
+    this.readyPlayers.delete(player.id);
+    this.unregisterPlayer(player);
+    this.eventSink?.playerRemoved(player.id);
+    if (player.id === this.hostPlayerId) this.passOnHost();
+    this.checkAutoStart();
   }
 
+  /**
+   * Runs after `playerRemoved` whenever a player is removed from the game, before the auto-start is checked again.
+   * Extendable base classes like `TurnBasedGame` override this to forget the player and call `super`.
+   * @param player The removed player.
+   */
+  protected unregisterPlayer(player: Player<Config, Events, Commands>): void { }
+
   /**
    * Runs code whenever a player is removed from the game.
    * @param player The player that was removed.
    */
-  protected abstract playerRemoved(player: Player): void;
+  protected abstract playerRemoved(player: Player<Config, Events, Commands>): void;
+
+  /**
+   * Decides whether a read-only socket may watch a player, receiving all events sent to that player.
+   *
+   * Override this method to change the policy, e.g. to require the player's consent
+   * or to allow watching players that are on the same team.
+   * @param player The player that is to be watched.
+   * @returns whether spectating the player is allowed. By default only after the game has finished.
+   */
+  public playerSpectatingAllowed(player: Player<Config, Events, Commands>): boolean {
+    return this.getState() === GameState.FINISHED;
+  }
 
   /**
    * Adds a socket to the game as a spectator.
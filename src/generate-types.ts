@@ -0,0 +1,104 @@
+import type { CGE, CGEObject, CGEType } from "./cge.js";
+
+const INDENT = "  ";
+
+/**
+ * Converts a `snake_case` CGE name to `PascalCase`.
+ * @param name The name from the CGE file.
+ * @returns the converted name.
+ */
+function pascalCase(name: string): string {
+  return name.split(/[_\-.]/).filter(Boolean).map((part) => part[0].toUpperCase() + part.slice(1)).join("");
+}
+
+/**
+ * Renders a doc comment.
+ * @param doc The documentation text. Nothing is rendered if this is `undefined`.
+ * @param indent The indentation of the commented declaration.
+ * @returns the doc comment including a trailing newline.
+ */
+function docComment(doc: string | undefined, indent = ""): string {
+  if (!doc) return "";
+  const lines = doc.split("\n");
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`.trimEnd()).join("\n")}\n${indent} */\n`;
+}
+
+function renderType(type: CGEType): string {
+  switch (type.kind) {
+    case "primitive":
+      if (type.name === "string") return "string";
+      if (type.name === "bool") return "boolean";
+      return "number";
+    case "list":
+      return `${renderType(type.of)}[]`;
+    case "map":
+      return `{ [index: string]: ${renderType(type.of)}; }`;
+    case "custom":
+      return pascalCase(type.name);
+  }
+}
+
+function renderObject(object: CGEObject, indent = ""): string {
+  const fields = Object.entries(object.fields);
+  if (fields.length === 0) return "{}";
+  const inner = indent + INDENT;
+  return `{\n${fields.map(([name, field]) => `${docComment(field.doc, inner)}${inner}${name}: ${renderType(field.type)};`).join("\n")}\n${indent}}`;
+}
+
+/**
+ * Renders a union of `{ name, data }` objects for commands or events.
+ * @param declarations The declared commands or events.
+ * @param suffix The suffix of each member's type name, e.g. `Event`.
+ * @param union The name of the union type.
+ */
+function renderMessages(declarations: { [index: string]: CGEObject; }, suffix: string, union: string): string {
+  const names = Object.keys(declarations);
+  let out = "";
+  for (const [name, declaration] of Object.entries(declarations)) {
+    out += docComment(declaration.doc);
+    out += `export type ${pascalCase(name)}${suffix} = {\n`;
+    out += `${INDENT}name: "${name}";\n`;
+    if (Object.keys(declaration.fields).length === 0) out += `${INDENT}data?: {};\n`;
+    else out += `${INDENT}data: ${renderObject(declaration, INDENT)};\n`;
+    out += "};\n\n";
+  }
+  out += `/** All ${suffix.toLowerCase()}s defined in the CGE file. */\n`;
+  out += `export type ${union} = ${names.length > 0 ? names.map((name) => pascalCase(name) + suffix).join(" | ") : "never"};\n`;
+  return out;
+}
+
+/**
+ * Generates TypeScript type declarations from a parsed Code Game Events file.
+ *
+ * The output contains:
+ * - a type for every `type` and `enum` declaration,
+ * - `GameConfig` for the `config` declaration,
+ * - one type per command and event as well as the `GameCommand` and `GameEvent` unions.
+ *
+ * `GameConfig`, `GameEvent` and `GameCommand` are meant to be passed to the generics of `Game` and `Player`.
+ * @param cge The parsed CGE file.
+ * @returns the TypeScript source code.
+ */
+export function generateTypes(cge: CGE): string {
+  const sections: string[] = [
+    `// Generated from the CGE file of "${cge.name}"${cge.version ? ` (CGE version ${cge.version})` : ""}.\n// DO NOT EDIT: changes will be overwritten the next time the types are generated.\n`
+  ];
+
+  for (const [name, enumeration] of Object.entries(cge.enums)) {
+    const values = enumeration.values.map((value) => `${docComment(value.doc, INDENT)}${INDENT}| "${value.name}"`).join("\n");
+    sections.push(`${docComment(enumeration.doc)}export type ${pascalCase(name)} =\n${values || `${INDENT}never`};\n`);
+  }
+
+  for (const [name, type] of Object.entries(cge.types)) {
+    sections.push(`${docComment(type.doc)}export type ${pascalCase(name)} = ${renderObject(type)};\n`);
+  }
+
+  if (cge.config) sections.push(`${docComment(cge.config.doc)}export type GameConfig = ${renderObject(cge.config)};\n`);
+  else sections.push("/** The game does not declare a config. */\nexport type GameConfig = {};\n");
+
+  sections.push(renderMessages(cge.commands, "Command", "GameCommand"));
+  sections.push(renderMessages(cge.events, "Event", "GameEvent"));
+
+  return sections.join("\n");
+}
@@ -0,0 +1,30 @@
+import { v4 } from "uuid";
+
+/** The ID that the next game or player adopts instead of generating a new one. */
+let reservedId: string | null = null;
+
+/**
+ * Generates the ID of a new game or player.
+ * @returns the reserved ID if there is one, otherwise a random UUID.
+ */
+export function newId(): string {
+  const id = reservedId ?? v4();
+  reservedId = null;
+  return id;
+}
+
+/**
+ * Makes the first game or player created by `fn` adopt a given ID.
+ * This keeps the IDs of games and players in worker threads in sync with the main thread.
+ * @param id The ID to adopt.
+ * @param fn The function that creates the game or player.
+ * @returns the return value of `fn`.
+ */
+export function withReservedId<T>(id: string, fn: () => T): T {
+  reservedId = id;
+  try {
+    return fn();
+  } finally {
+    reservedId = null;
+  }
+}
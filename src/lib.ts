@@ -1,9 +1,51 @@
 // Re-export
 export type { Info } from "./api.js";
-export { GameServer, type CreateGameFn } from "./server.js";
-export { Game } from "./game.js";
-export { Player } from "./player.js";
-export type { AnyCommand, AnyEvent } from "./game-socket.js";
-export { Severity } from "./logger.js";
+export { GameServer, type CreateGameFn, type GameServerOptions } from "./server.js";
+export {
+  Game,
+  GameState,
+  READY_COMMAND,
+  HOST_COMMANDS,
+  type BuiltinEvent,
+  type ServerNoticeEvent,
+  type ServerShutdownEvent,
+  type HostChangedEvent,
+  type PlayerKickedEvent,
+  type JoiningChangedEvent,
+  type GameStartedEvent,
+  type ConfigChangedEvent,
+  type EventSink
+} from "./game.js";
+export {
+  TurnBasedGame,
+  type TurnTimeoutPolicy,
+  type TurnEndReason,
+  type TurnEvent,
+  type TurnStartedEvent,
+  type TurnEndedEvent
+} from "./turn-based-game.js";
+export { Player, type SequencedEvent, type BotBrain } from "./player.js";
+export { hostGames } from "./worker-host.js";
+export type { WorkerOptions } from "./worker-pool.js";
+export type { AnyCommand, AnyEvent, CommandRejectedEvent } from "./game-socket.js";
+export { Severity, type LogTransport, type LogRecord, type LogContext } from "./logger.js";
+export { ConsoleTransport, JsonFileTransport, type JsonFileTransportOptions } from "./log-transports.js";
+export { parseCGE, loadCGE, validateCommand, type CGE, type ValidationError } from "./cge.js";
+export { generateTypes } from "./generate-types.js";
+export { Matchmaker, type MatchmakingOptions, type MatchmakingCriteria, type MatchmakingOutcome } from "./matchmaker.js";
+export type { RateLimit } from "./rate-limiter.js";
+export {
+  SessionTokens,
+  SESSION_TOKEN_PROTOCOL_PREFIX,
+  type SessionTokenOptions,
+  type SessionClaims,
+  type IssuedSessionToken
+} from "./session-tokens.js";
+export { ServerMetrics, MetricsRegistry, Counter, Gauge, type Labels } from "./metrics.js";
+export type { OutboundOptions, SlowConsumerPolicy } from "./socket.js";
+export { jsonCodec, msgpackCodec, type Codec } from "./codecs.js";
+export { useClock, systemClock, type Clock, type Timer } from "./clock.js";
+export { TestHarness, TestClient, FakeClock, type TestHarnessOptions } from "./testing.js";
+export { FileRecordingStore, type RecordingStore, type RecordingEntry } from "./recorder.js";
 
 export const CG_VERSION = Object.freeze([0, 8]);
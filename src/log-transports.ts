@@ -0,0 +1,97 @@
+import consola from "consola";
+import { closeSync, existsSync, openSync, renameSync, statSync, unlinkSync, writeSync } from "fs";
+import { Logger, Severity, type LogRecord, type LogTransport } from "./logger.js";
+
+const DEFAULT_MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+/** Prints human readable log records to the console using `consola`. */
+export class ConsoleTransport implements LogTransport {
+  public readonly minSeverity: Severity;
+
+  /**
+   * Creates a new console transport.
+   * @param minSeverity The minimum severity of the printed records. The default is `Severity.INFO`.
+   */
+  public constructor(minSeverity: Severity = Severity.INFO) {
+    this.minSeverity = minSeverity;
+  }
+
+  public write({ severity, message, data, timestamp, game_id, player_id }: LogRecord) {
+    const origin = (game_id ? ` [game ${game_id.slice(0, 8)}]` : "") + (player_id ? ` [player ${player_id.slice(0, 8)}]` : "");
+    const line = `[${Logger.dateTime(timestamp)}]${origin} ${message}`;
+    const method = { [Severity.ERROR]: consola.error, [Severity.WARNING]: consola.warn, [Severity.INFO]: consola.info, [Severity.TRACE]: consola.trace }[severity];
+    if (data) method(line, data);
+    else method(line);
+  }
+}
+
+/** Options for the `JsonFileTransport`. */
+export interface JsonFileTransportOptions {
+  /** The minimum severity of the written records. The default is `Severity.INFO`. */
+  minSeverity?: Severity;
+  /** The size in bytes at which the file is rotated. The default is 10 MiB. */
+  maxFileSizeBytes?: number;
+  /** The number of rotated files to keep in addition to the current one. The default is 5. */
+  maxFiles?: number;
+}
+
+/**
+ * Writes log records as JSON Lines to a file.
+ *
+ * When the file exceeds `maxFileSizeBytes` it is rotated: `app.log` becomes
+ * `app.log.1`, `app.log.1` becomes `app.log.2` and so on. The oldest file is deleted.
+ */
+export class JsonFileTransport implements LogTransport {
+  public readonly minSeverity: Severity;
+  /** The path to the current log file. */
+  private readonly path: string;
+  private readonly MAX_FILE_SIZE_BYTES: number;
+  private readonly MAX_FILES: number;
+  /** The file descriptor of the current log file. */
+  private fd: number;
+  /** The size of the current log file in bytes. */
+  private size: number;
+
+  /**
+   * Creates a new JSON file transport and opens the file for appending.
+   * @param path The path to the log file.
+   * @param options Options for filtering and rotation.
+   */
+  public constructor(path: string, options: JsonFileTransportOptions = {}) {
+    this.path = path;
+    this.minSeverity = options.minSeverity || Severity.INFO;
+    this.MAX_FILE_SIZE_BYTES = options.maxFileSizeBytes || DEFAULT_MAX_FILE_SIZE_BYTES;
+    this.MAX_FILES = options.maxFiles ?? DEFAULT_MAX_FILES;
+    this.fd = openSync(path, "a");
+    this.size = statSync(path).size;
+  }
+
+  public write({ timestamp, ...record }: LogRecord) {
+    const line = JSON.stringify({ time: new Date(timestamp).toISOString(), ...record }) + "\n";
+    if (this.size > 0 && this.size + Buffer.byteLength(line) > this.MAX_FILE_SIZE_BYTES) this.rotate();
+    this.size += writeSync(this.fd, line);
+  }
+
+  /** Closes the log file. No more records can be written afterwards. */
+  public close() {
+    closeSync(this.fd);
+  }
+
+  /** Moves every log file up by one and opens a new, empty one. */
+  private rotate() {
+    closeSync(this.fd);
+    if (this.MAX_FILES === 0) {
+      unlinkSync(this.path);
+    } else {
+      const oldest = `${this.path}.${this.MAX_FILES}`;
+      if (existsSync(oldest)) unlinkSync(oldest);
+      for (let i = this.MAX_FILES - 1; i >= 1; i--) {
+        if (existsSync(`${this.path}.${i}`)) renameSync(`${this.path}.${i}`, `${this.path}.${i + 1}`);
+      }
+      renameSync(this.path, `${this.path}.1`);
+    }
+    this.fd = openSync(this.path, "a");
+    this.size = 0;
+  }
+}
@@ -1,5 +1,6 @@
 import consola from 'consola';
 import type { DebugSocket } from "./debug-socket.js";
+import { clock } from "./clock.js";
 
 /** Severity levels. */
 export enum Severity {
@@ -9,6 +10,19 @@ export enum Severity {
   TRACE = 'trace'
 }
 
+/** Severity levels ordered from least to most severe. */
+const SEVERITY_ORDER: readonly Severity[] = [Severity.TRACE, Severity.INFO, Severity.WARNING, Severity.ERROR];
+
+/**
+ * Compares two severity levels.
+ * @param severity The severity of a message.
+ * @param minSeverity The minimum severity.
+ * @returns whether `severity` is at least as severe as `minSeverity`.
+ */
+export function severityAtLeast(severity: Severity, minSeverity: Severity): boolean {
+  return SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(minSeverity);
+}
+
 /** A debug message. */
 export type DebugMessage = {
   severity: Severity,
@@ -16,55 +30,133 @@ export type DebugMessage = {
   data?: object;
 };
 
+/** The IDs that identify the origin of a log record. */
+export type LogContext = {
+  game_id?: string,
+  player_id?: string;
+};
+
+/** A debug message as it is passed to log transports. */
+export type LogRecord = DebugMessage & LogContext & {
+  /** The unix timestamp in milliseconds at which the message was logged. */
+  timestamp: number;
+};
+
+/** A sink for log records, e.g. the console, a file or a custom callback. */
+export interface LogTransport {
+  /** The minimum severity of the records passed to `write`. The default is `Severity.INFO`. */
+  minSeverity?: Severity;
+  /**
+   * Writes a single log record.
+   * @param record The log record.
+   */
+  write(record: LogRecord): void;
+}
+
 export class Logger<Config extends object = object> {
   /** A map of debug sockets associated with this logger. */
   private readonly debugSockets: { [index: string]: DebugSocket<Config>; } = {};
+  /** The transports that receive the records of this logger and all of its descendants. */
+  private readonly transports: LogTransport[] = [];
+  /** The logger that records are passed on to, e.g. the game's logger for a player's logger. */
+  private parent: Logger<Config> | null = null;
+  /** Returns the IDs that are attached to every record. */
+  private readonly context: () => LogContext;
+
+  /**
+   * Creates a new logger.
+   * @param context Returns the IDs that are attached to every record of this logger.
+   */
+  public constructor(context: () => LogContext = () => ({})) {
+    this.context = context;
+  }
 
   public error(message: DebugMessage["message"], data?: DebugMessage["data"]) {
-    this.broadcastDebugMessage({ severity: Severity.ERROR, message, data });
+    this.log({ severity: Severity.ERROR, message, data });
   }
 
   public errorStdout(message: DebugMessage["message"], data?: DebugMessage["data"]) {
-    if (data) consola.error(`[${Logger.dateTime()}] ${message}`, data);
-    else consola.error(`[${Logger.dateTime()}] ${message}`);
-    this.error(message, data);
+    this.log({ severity: Severity.ERROR, message, data }, true);
   }
 
   public warn(message: DebugMessage["message"], data?: DebugMessage["data"]) {
-    this.broadcastDebugMessage({ severity: Severity.WARNING, message, data });
+    this.log({ severity: Severity.WARNING, message, data });
   }
 
   public warnStdout(message: DebugMessage["message"], data?: DebugMessage["data"]) {
-    if (data) consola.warn(`[${Logger.dateTime()}] ${message}`, data);
-    else consola.warn(`[${Logger.dateTime()}] ${message}`);
-    this.warn(message, data);
+    this.log({ severity: Severity.WARNING, message, data }, true);
   }
 
   public info(message: DebugMessage["message"], data?: DebugMessage["data"]) {
-    this.broadcastDebugMessage({ severity: Severity.INFO, message, data });
+    this.log({ severity: Severity.INFO, message, data });
   }
 
   public infoStdout(message: DebugMessage["message"], data?: DebugMessage["data"]) {
-    if (data) consola.info(`[${Logger.dateTime()}] ${message}`, data);
-    else consola.info(`[${Logger.dateTime()}] ${message}`);
-    this.info(message, data);
+    this.log({ severity: Severity.INFO, message, data }, true);
   }
 
   public trace(message: DebugMessage["message"], data?: DebugMessage["data"]) {
-    this.broadcastDebugMessage({ severity: Severity.TRACE, message, data });
+    this.log({ severity: Severity.TRACE, message, data });
   }
 
   public traceStdout(message: DebugMessage["message"], data?: DebugMessage["data"]) {
-    if (data) consola.trace(`[${Logger.dateTime()}] ${message}`, data);
-    else consola.trace(`[${Logger.dateTime()}] ${message}`);
-    this.trace(message, data);
+    this.log({ severity: Severity.TRACE, message, data }, true);
+  }
+
+  /**
+   * Sends a message to the debug sockets of this logger, to the debug sockets of its ancestors that subscribed to it
+   * and to the transports of this logger and its ancestors.
+   * @param message The debug message.
+   * @param stdout Whether to print the message to stdout if no transports are configured.
+   */
+  private log(message: DebugMessage, stdout = false) {
+    this.broadcastDebugMessage(message);
+
+    let origin: LogContext | undefined;
+    let record: LogRecord | undefined;
+    let hasTransports = false;
+    for (let logger: Logger<Config> | null = this; logger; logger = logger.parent) {
+      if (logger !== this) {
+        for (const debugSocket of Object.values(logger.debugSockets)) {
+          if (!origin) origin = this.context();
+          if (debugSocket.subscribedTo(origin)) debugSocket.send(message, origin);
+        }
+      }
+      for (const transport of logger.transports) {
+        hasTransports = true;
+        if (!severityAtLeast(message.severity, transport.minSeverity || Severity.INFO)) continue;
+        if (!origin) origin = this.context();
+        if (!record) record = { ...origin, ...message, timestamp: clock.now() };
+        try {
+          transport.write(record);
+        } catch (err) {
+          console.error(err);
+        }
+      }
+    }
+
+    if (stdout && !hasTransports) Logger.printStdout(message);
   }
 
-  private static dateTime() {
-    const now = new Date();
+  /**
+   * Prints a message to stdout using `consola`.
+   * @param message The debug message.
+   */
+  private static printStdout({ severity, message, data }: DebugMessage) {
+    const method = { [Severity.ERROR]: consola.error, [Severity.WARNING]: consola.warn, [Severity.INFO]: consola.info, [Severity.TRACE]: consola.trace }[severity];
+    if (data) method(`[${Logger.dateTime()}] ${message}`, data);
+    else method(`[${Logger.dateTime()}] ${message}`);
+  }
+
+  /**
+   * Formats a timestamp as `YYYY-MM-DD hh:mm:ss` in local time.
+   * @param timestamp The unix timestamp in milliseconds. The default is now.
+   */
+  public static dateTime(timestamp = clock.now()) {
+    const date = new Date(timestamp);
     return (
-      `${now.getFullYear()}-${now.getMonth()}-${now.getDay()}` + " " +
-      `${this.padNumber(now.getHours())}:${this.padNumber(now.getMinutes())}:${this.padNumber(now.getSeconds())}`
+      `${date.getFullYear()}-${this.padNumber(date.getMonth() + 1)}-${this.padNumber(date.getDate())}` + " " +
+      `${this.padNumber(date.getHours())}:${this.padNumber(date.getMinutes())}:${this.padNumber(date.getSeconds())}`
     );
   }
 
@@ -82,6 +174,27 @@ export class Logger<Config extends object = object> {
     }
   }
 
+  /**
+   * Adds a transport that receives the records of this logger and all of its descendants.
+   * @param transport The log transport.
+   */
+  public addTransport(transport: LogTransport) {
+    this.transports.push(transport);
+  }
+
+  /**
+   * Passes the records of this logger on to the transports of another logger.
+   * Debug messages are only passed on to the debug sockets of ancestors that subscribed to this logger's game or player.
+   * @param parent The parent logger, e.g. the game's logger for a player's logger.
+   */
+  public setParent(parent: Logger<Config> | null) {
+    this.parent = parent;
+  }
+
+  public getDebugSocketCount(): number {
+    return Object.keys(this.debugSockets).length;
+  }
+
   /**
    * Connects a debug socket to the logger.
    * @param debugSocket The debug socket to associate with the logger.
@@ -0,0 +1,168 @@
+import { v4 } from "uuid";
+import type { GameServer } from "./server.js";
+import { clock, type Timer } from "./clock.js";
+
+/** Values that players can require their opponents to share, e.g. `{ mode: "ranked", map_size: 20 }`. */
+export type MatchmakingCriteria = { [index: string]: string | number | boolean; };
+
+/** The result of waiting in the matchmaking queue. */
+export type MatchmakingOutcome =
+  | { status: "matched", game_id: string, player_id: string, player_secret: string, session_token: string, session_expires_at: number; }
+  | { status: "timeout"; }
+  | { status: "error", message: string; };
+
+/** Options for automatically pairing players. */
+export interface MatchmakingOptions {
+  /** The number of players that are put into each game. */
+  playersPerGame: number;
+  /** The time in seconds a player waits in the queue before giving up. The default is 60 seconds. */
+  timeoutSeconds?: number;
+  /** Whether the created games are listed publicly. The default is `false`. */
+  public?: boolean;
+}
+
+/** A player waiting in the queue. */
+type Ticket = {
+  id: string,
+  username: string,
+  criteria: MatchmakingCriteria,
+  timeout: Timer,
+  callback: (outcome: MatchmakingOutcome) => void;
+};
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+
+/**
+ * Pairs waiting players and creates games for them.
+ *
+ * Two players are compatible if all criteria that both of them specified have the same value.
+ * The merged criteria of all matched players are passed to `configSanitizer` as the game config.
+ */
+export class Matchmaker<Config extends object = object> {
+  private readonly gameServer: GameServer<Config>;
+  /** The number of players that are put into each game. */
+  public readonly PLAYERS_PER_GAME: number;
+  /** The time in seconds a player waits in the queue before giving up. */
+  public readonly TIMEOUT_SECONDS: number;
+  /** Whether the created games are listed publicly. */
+  private readonly public: boolean;
+  /** The waiting players, oldest first. */
+  private queue: Ticket[] = [];
+
+  /**
+   * Creates a new matchmaker.
+   * @param gameServer The game server to create games on.
+   * @param options Options for pairing players.
+   */
+  public constructor(gameServer: GameServer<Config>, options: MatchmakingOptions) {
+    this.gameServer = gameServer;
+    this.PLAYERS_PER_GAME = Math.max(options.playersPerGame || 1, 1);
+    this.TIMEOUT_SECONDS = options.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS;
+    this.public = options.public || false;
+  }
+
+  /**
+   * Puts a player into the queue and creates a game as soon as enough compatible players are waiting.
+   * @param username The username of the player.
+   * @param criteria The values that the player's opponents must share.
+   * @param callback Is called exactly once with the outcome, unless the ticket is cancelled.
+   * @returns a function that removes the player from the queue.
+   */
+  public enqueue(username: string, criteria: MatchmakingCriteria, callback: (outcome: MatchmakingOutcome) => void): () => void {
+    const id = v4();
+    const timeout = clock.setTimeout(() => {
+      this.remove(id);
+      callback({ status: "timeout" });
+    }, this.TIMEOUT_SECONDS * 1000);
+    const ticket: Ticket = { id, username, criteria, timeout, callback };
+    this.queue.push(ticket);
+    this.gameServer.logger.info(`${username} joined the matchmaking queue. (${this.queue.length} waiting)`, { criteria });
+    this.match(ticket).catch((err) => this.gameServer.logger.errorStdout(`Matchmaking failed: ${String(err)}`));
+    return () => this.remove(id);
+  }
+
+  /**
+   * Removes all players from the queue.
+   * @param message The error message that the waiting players receive.
+   */
+  public clear(message: string) {
+    const queue = this.queue;
+    for (const ticket of queue) this.remove(ticket.id);
+    for (const ticket of queue) ticket.callback({ status: "error", message });
+  }
+
+  /** The number of players waiting in the queue. */
+  public getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Tries to find enough compatible players for a newly queued player and creates a game for them.
+   * @param ticket The newly queued player.
+   */
+  private async match(ticket: Ticket) {
+    const group = [ticket];
+    for (const other of this.queue) {
+      if (group.length === this.PLAYERS_PER_GAME) break;
+      if (other !== ticket && group.every((member) => Matchmaker.compatible(member.criteria, other.criteria))) group.push(other);
+    }
+    if (group.length < this.PLAYERS_PER_GAME) return;
+
+    // the players that waited the longest join first
+    group.sort((a, b) => this.queue.indexOf(a) - this.queue.indexOf(b));
+    for (const member of group) this.remove(member.id);
+
+    let outcomes: MatchmakingOutcome[];
+    /** The ID of the new game or `null` if it has not been created. */
+    let createdGameId: string | null = null;
+    try {
+      const config = Object.assign({}, ...group.map((member) => member.criteria));
+      const { gameId } = this.gameServer.createGame(this.public, false, config);
+      createdGameId = gameId;
+      const game = await this.gameServer.whenCreated(gameId);
+      if (!game) throw "The game could not be found after creating it.";
+      outcomes = group.map((member) => {
+        const player = game.addPlayer(member.username);
+        const session = this.gameServer.sessions.issue(gameId, player.id);
+        return { status: "matched", game_id: gameId, player_id: player.id, player_secret: player.secret, session_token: session.token, session_expires_at: session.expires_at };
+      });
+      this.gameServer.logger.info(`Matched ${group.length} players into game ${gameId.slice(0, 8)}.`);
+    } catch (err) {
+      const message = typeof err === "string" ? err : "Unable to create a game for the matched players.";
+      this.gameServer.logger.errorStdout(`Matchmaking failed: ${message}`);
+      // the players were told that matchmaking failed, so the partly filled game would never be used
+      if (createdGameId !== null) this.gameServer.deleteGame(createdGameId, "matchmaking failing");
+      outcomes = group.map(() => ({ status: "error", message }));
+    }
+    group.forEach((member, index) => member.callback(outcomes[index]));
+  }
+
+  /**
+   * Removes a player from the queue.
+   * @param id The ID of the player's ticket.
+   */
+  private remove(id: string) {
+    const ticket = this.queue.find((ticket) => ticket.id === id);
+    if (!ticket) return;
+    clock.clearTimer(ticket.timeout);
+    this.queue = this.queue.filter((other) => other !== ticket);
+  }
+
+  /**
+   * Checks whether two players can be put into the same game.
+   * @returns whether all criteria that both players specified have the same value.
+   */
+  private static compatible(a: MatchmakingCriteria, b: MatchmakingCriteria): boolean {
+    return Object.keys(a).every((key) => !(key in b) || a[key] === b[key]);
+  }
+
+  /**
+   * Checks whether a value from a request body is valid criteria.
+   * @param criteria The value to check.
+   * @returns whether the value is an object of strings, numbers and booleans.
+   */
+  public static validCriteria(criteria: unknown): criteria is MatchmakingCriteria {
+    return typeof criteria === "object" && criteria !== null && !Array.isArray(criteria) &&
+      Object.values(criteria).every((value) => ["string", "number", "boolean"].includes(typeof value));
+  }
+}
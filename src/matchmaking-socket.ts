@@ -0,0 +1,73 @@
+import type { WebSocket, MessageEvent } from "ws";
+import { Matchmaker, type MatchmakingOutcome } from "./matchmaker.js";
+import { Socket } from "./socket.js";
+import type { Codec } from "./codecs.js";
+import type { ServerMetrics } from "./metrics.js";
+
+/**
+ * Waits in the matchmaking queue on behalf of its websocket peer.
+ *
+ * The peer sends a single `{ "username": string, "criteria"?: object }` message to join the queue.
+ * The socket answers with `{ "name": "matched", "data": { game_id, player_id, player_secret, session_token, session_expires_at } }`,
+ * `{ "name": "matchmaking_timeout" }` or `{ "name": "matchmaking_error", "data": { message } }`
+ * and closes the connection afterwards. Disconnecting leaves the queue.
+ */
+export class MatchmakingSocket<Config extends object = object> extends Socket {
+  private readonly matchmaker: Matchmaker<Config>;
+  /** Removes the peer from the queue or `null` if the peer is not waiting. */
+  private cancel: (() => void) | null = null;
+  /** Whether the outcome has already been sent. */
+  private finished = false;
+
+  public constructor(matchmaker: Matchmaker<Config>, socket: WebSocket, heartbeatIntervalSeconds: number, codec?: Codec, metrics: ServerMetrics | null = null) {
+    socket.addEventListener("message", (message: MessageEvent) => this.handleMessage(message));
+    super(socket, heartbeatIntervalSeconds, codec, undefined, metrics);
+    this.matchmaker = matchmaker;
+  }
+
+  /**
+   * Handles the request to join the queue.
+   * @param message The `MessageEvent` to be handled.
+   */
+  private handleMessage(message: MessageEvent) {
+    if (this.cancel || this.finished) return;
+    let request: { username?: unknown, criteria?: unknown; };
+    try {
+      request = this.decodeMessage(message.data) as { username?: unknown, criteria?: unknown; };
+    } catch (_err) {
+      this.finish({ status: "error", message: "Unable to deserialize socket message." });
+      return;
+    }
+    if (typeof request?.username !== "string" || !request.username) {
+      this.finish({ status: "error", message: "Please specify a username." });
+    } else if (request.criteria !== undefined && !Matchmaker.validCriteria(request.criteria)) {
+      this.finish({ status: "error", message: "The criteria must be an object of strings, numbers and booleans." });
+    } else {
+      const cancel = this.matchmaker.enqueue(request.username, request.criteria || {}, (outcome) => this.finish(outcome));
+      // the player might have been matched immediately
+      if (!this.finished) this.cancel = cancel;
+    }
+  }
+
+  /**
+   * Sends the outcome to the peer and closes the connection.
+   * @param outcome The outcome of waiting in the queue.
+   */
+  private finish(outcome: MatchmakingOutcome) {
+    this.cancel = null;
+    this.finished = true;
+    const { status, ...data } = outcome;
+    const name = status === "matched" ? "matched" : `matchmaking_${status}`;
+    try {
+      this.sendMessage(status === "timeout" ? { name } : { name, data });
+    } catch (err) {
+      console.error(err);
+    }
+    this.socket.close();
+  }
+
+  protected onDisconnect(): void {
+    if (this.cancel) this.cancel();
+    this.cancel = null;
+  }
+}
@@ -0,0 +1,180 @@
+/** Label names mapped to label values. */
+export type Labels = { [index: string]: string; };
+
+type Series = {
+  labels: Labels,
+  value: number;
+};
+
+const NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+
+/** The common base of counters and gauges. */
+abstract class Metric {
+  public readonly name: string;
+  public readonly help: string;
+  public abstract readonly type: "counter" | "gauge";
+  /** The value of every label combination, keyed by the serialized labels. */
+  private readonly series = new Map<string, Series>();
+
+  public constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  /**
+   * Gets the current value.
+   * @param labels The labels of the series.
+   * @returns the value or `0` if the series does not exist.
+   */
+  public get(labels: Labels = {}): number {
+    return this.series.get(Metric.key(labels))?.value || 0;
+  }
+
+  protected add(amount: number, labels: Labels) {
+    this.update(labels, (value) => value + amount);
+  }
+
+  protected update(labels: Labels, fn: (value: number) => number) {
+    const key = Metric.key(labels);
+    const series = this.series.get(key) || { labels, value: 0 };
+    series.value = fn(series.value);
+    this.series.set(key, series);
+  }
+
+  /**
+   * Removes all series that have the given labels.
+   * @param labels The labels a series must have to be removed.
+   */
+  public remove(labels: Labels) {
+    for (const [key, series] of this.series) {
+      if (Object.entries(labels).every(([name, value]) => series.labels[name] === value)) this.series.delete(key);
+    }
+  }
+
+  /** Renders the metric in the Prometheus text exposition format. */
+  public render(): string {
+    let out = `# HELP ${this.name} ${this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}\n# TYPE ${this.name} ${this.type}\n`;
+    if (this.series.size === 0) out += `${this.name} 0\n`;
+    for (const series of this.series.values()) {
+      const labels = Object.entries(series.labels).map(([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n")}"`);
+      out += `${this.name}${labels.length > 0 ? `{${labels.join(",")}}` : ""} ${series.value}\n`;
+    }
+    return out;
+  }
+
+  private static key(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a < b ? -1 : 1));
+  }
+}
+
+/** A value that only ever goes up, e.g. the number of commands received. */
+export class Counter extends Metric {
+  public readonly type = "counter";
+
+  /**
+   * Increases the counter.
+   * @param amount The non-negative amount to add. The default is `1`.
+   * @param labels The labels of the series.
+   */
+  public inc(amount = 1, labels: Labels = {}) {
+    if (amount < 0) throw "Counters cannot be decreased.";
+    this.add(amount, labels);
+  }
+}
+
+/** A value that can go up and down, e.g. the number of connected players. */
+export class Gauge extends Metric {
+  public readonly type = "gauge";
+
+  public set(value: number, labels: Labels = {}) {
+    this.update(labels, () => value);
+  }
+
+  public inc(amount = 1, labels: Labels = {}) {
+    this.add(amount, labels);
+  }
+
+  public dec(amount = 1, labels: Labels = {}) {
+    this.add(-amount, labels);
+  }
+}
+
+/** A collection of metrics that is rendered by the `/api/metrics` route. */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric>();
+
+  /**
+   * Gets or creates a counter.
+   * @param name The metric name, e.g. `mygame_moves_total`.
+   * @param help A description of the metric.
+   * @returns the counter.
+   * @throws if the name is invalid or already used by a gauge.
+   */
+  public counter(name: string, help: string): Counter {
+    return this.register(name, help, Counter);
+  }
+
+  /**
+   * Gets or creates a gauge.
+   * @param name The metric name, e.g. `mygame_bullets`.
+   * @param help A description of the metric.
+   * @returns the gauge.
+   * @throws if the name is invalid or already used by a counter.
+   */
+  public gauge(name: string, help: string): Gauge {
+    return this.register(name, help, Gauge);
+  }
+
+  /**
+   * Removes all series with the given labels from all metrics.
+   * @param labels The labels a series must have to be removed.
+   */
+  public remove(labels: Labels) {
+    for (const metric of this.metrics.values()) metric.remove(labels);
+  }
+
+  /** Renders all metrics in the Prometheus text exposition format. */
+  public render(): string {
+    return [...this.metrics.values()].map((metric) => metric.render()).join("");
+  }
+
+  /**
+   * Checks whether a metric name is valid in the Prometheus text exposition format.
+   * @param name The metric name.
+   * @throws if the name is invalid.
+   */
+  public static validateName(name: string) {
+    if (!NAME_PATTERN.test(name)) throw `"${name}" is not a valid metric name.`;
+  }
+
+  private register<M extends Metric>(name: string, help: string, type: new (name: string, help: string) => M): M {
+    MetricsRegistry.validateName(name);
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (!(existing instanceof type)) throw `The metric "${name}" has already been registered as a ${existing.type}.`;
+      return existing;
+    }
+    const metric = new type(name, help);
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
+
+/**
+ * The registry of a `GameServer`, which holds the built-in metrics as well as all metrics registered by its games.
+ * Every server has its own registry, so that servers in the same process do not share counters.
+ */
+export class ServerMetrics extends MetricsRegistry {
+  public readonly games = this.gauge("codegame_games", "The number of games on the server.");
+  public readonly players = this.gauge("codegame_players", "The number of players in all games.");
+  public readonly spectators = this.gauge("codegame_spectators", "The number of spectator sockets in all games.");
+  public readonly debugSockets = this.gauge("codegame_debug_sockets", "The number of connected debug sockets.");
+  public readonly commandsReceived = this.counter("codegame_commands_received_total", "The number of commands received from players.");
+  public readonly eventsSent = this.counter("codegame_events_sent_total", "The number of events sent to game and spectator sockets.");
+  public readonly unknownCommands = this.counter("codegame_unknown_commands_total", "The number of commands that no player could handle.");
+  public readonly deserializationFailures = this.counter("codegame_deserialization_failures_total", "The number of socket messages that could not be deserialized.");
+  public readonly heartbeatTerminations = this.counter("codegame_heartbeat_terminations_total", "The number of sockets terminated because they did not answer a ping.");
+  public readonly slowConsumers = this.counter("codegame_slow_consumers_total", "The number of times a socket did not read its messages fast enough.");
+  public readonly messagesDropped = this.counter("codegame_messages_dropped_total", "The number of outgoing messages dropped or coalesced because of slow consumers.");
+  public readonly gamesReaped = this.counter("codegame_games_reaped_total", "The number of games deleted due to inactivity.");
+}
@@ -0,0 +1,41 @@
+import type { WebSocket } from "ws";
+import type { Player, SequencedEvent } from "./player.js";
+import { Socket, type OutboundOptions, type SlowConsumerPolicy } from "./socket.js";
+import { AnyEvent } from "./game-socket.js";
+import type { ServerMetrics } from "./metrics.js";
+import type { Codec } from "./codecs.js";
+
+/**
+ * A read-only socket that receives exactly the events that a player receives.
+ * Messages from the websocket peer are ignored.
+ */
+export class PlayerSpectatorSocket<Config extends object = object> extends Socket {
+  /** A reference to the player that the socket is watching. */
+  protected player: Player<Config>;
+
+  public constructor(player: Player<Config>, socket: WebSocket, heartbeatIntervalSeconds: number, codec?: Codec, outbound?: OutboundOptions, metrics: ServerMetrics | null = null) {
+    super(socket, heartbeatIntervalSeconds, codec, outbound, metrics);
+    this.player = player;
+  }
+
+  /**
+   * Sends an event to the socket's websocket peer.
+   * @param event The event to send to the websocket's peer.
+   */
+  public send<E extends AnyEvent = AnyEvent>(event: SequencedEvent<E>) {
+    try {
+      this.queueMessage(event);
+      this.metrics?.eventsSent.inc();
+    } catch (err) {
+      console.error(err);
+    }
+  }
+
+  protected onSlowConsumer(policy: SlowConsumerPolicy, bufferedBytes: number): void {
+    this.player.logger.warn("A player spectator socket is not reading its events fast enough.", { socket_id: this.id, policy, buffered_bytes: bufferedBytes });
+  }
+
+  protected onDisconnect(): void {
+    this.player.removeSpectator(this);
+  }
+}
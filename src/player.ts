@@ -1,34 +1,60 @@
 import type { GameSocket, AnyEvent, AnyCommand } from "./game-socket.js";
 import type { DebugSocket } from "./debug-socket.js";
-import type { Game } from "./game.js";
+import type { PlayerSpectatorSocket } from "./player-spectator-socket.js";
+import type { BuiltinEvent, Game } from "./game.js";
 import { Logger } from "./logger.js";
-import { v4 } from "uuid";
-import { randomSecret } from "./secret.js";
+import { newId } from "./ids.js";
+import { randomSecret, secretsEqual } from "./secret.js";
+import { clock } from "./clock.js";
+
+const DEFAULT_MAX_OUTBOX_SIZE = 256;
+
+/** An event that was sent to a player along with its sequence number. */
+export type SequencedEvent<E extends AnyEvent = AnyEvent> = E & { seq: number; };
+
+/**
+ * Controls a bot player that runs on the server instead of being connected through a socket.
+ * @param event An event that was sent to the bot, which is one of the game's events or one of the standard events.
+ * @param sendCommand Sends a command on behalf of the bot.
+ */
+export type BotBrain<Events extends AnyEvent = AnyEvent, Commands extends AnyCommand = AnyCommand> = (event: SequencedEvent<Events | BuiltinEvent>, sendCommand: (command: Commands) => void) => void;
 
 /** An extendable base class for creating players. */
-export abstract class Player<Config extends object = object> {
+export abstract class Player<Config extends object = object, Events extends AnyEvent = AnyEvent, Commands extends AnyCommand = AnyCommand> {
   /** The game the player belongs to. */
-  protected abstract game: Game;
+  protected abstract game: Game<Config, Events, Commands>;
   /** The player's player ID. */
-  public readonly id: string = v4();
+  public readonly id: string = newId();
   /** The player's username. */
   public readonly username: string;
   /** The player's player secret. */
   public readonly secret: string = randomSecret();
   /** A map of game sockets associated with the player. */
-  protected readonly gameSockets: { [index: string]: GameSocket; } = {};
+  protected readonly gameSockets: { [index: string]: GameSocket<Config>; } = {};
   /** A map of debug sockets associated with the player. */
   protected readonly debugSockets: { [index: string]: DebugSocket<Config>; } = {};
+  /** A map of read-only sockets watching the player. */
+  protected readonly spectators: { [index: string]: PlayerSpectatorSocket<Config>; } = {};
   /** The unix timestamp of the time that the last socket disconnected from the player. */
-  public inactiveSince = Date.now();
-  public readonly logger = new Logger<Config>();
+  public inactiveSince = clock.now();
+  public readonly logger = new Logger<Config>(() => ({ game_id: this.game?.id, player_id: this.id }));
+  /** The maximum number of sent events that are kept for replaying them to reconnecting sockets. */
+  protected readonly MAX_OUTBOX_SIZE: number;
+  /** The sequence number of the last event sent to the player. */
+  private seq = 0;
+  /** The most recently sent events, oldest first. */
+  private readonly outbox: SequencedEvent<Events | BuiltinEvent>[] = [];
+  /** Receives the events sent to the player if it is a bot. */
+  private brain: BotBrain<Events, Commands> | null = null;
 
   /**
    * Creates a new player.
    * @param username The username to assign to the player.
+   * @param maxOutboxSize The maximum number of sent events kept for replaying them to reconnecting sockets. The default is 256.
    */
-  public constructor(username: string) {
+  public constructor(username: string, maxOutboxSize: number = DEFAULT_MAX_OUTBOX_SIZE) {
     this.username = username;
+    this.MAX_OUTBOX_SIZE = maxOutboxSize >= 0 ? maxOutboxSize : DEFAULT_MAX_OUTBOX_SIZE;
   }
 
   /**
@@ -37,19 +63,44 @@ export abstract class Player<Config extends object = object> {
    * @returns whether the secret is valid.
   */
   public verifySecret(secret: string): boolean {
-    this.logger.warn("Player secret validation failed. Someone might be trying hijack your player. It's very unlikely they'll have any luck though.");
-    return this.secret === secret;
+    const valid = secretsEqual(secret, this.secret);
+    if (!valid) this.logger.warn("Player secret validation failed. Someone might be trying hijack your player. It's very unlikely they'll have any luck though.");
+    return valid;
   }
 
-  /** Terminates all attached websocket connections. */
-  public terminate() {
-    this.logger.warn("This player is being terminated due to inactivity.", { inactive_since: this.inactiveSince });
+  /**
+   * Terminates all attached websocket connections.
+   * @param reason Why the player is terminated. The default is `"inactivity"`.
+   */
+  public terminate(reason = "inactivity") {
+    this.logger.warn(`This player is being terminated due to ${reason}.`, { inactive_since: this.inactiveSince });
     for (const socket of Object.values(this.gameSockets)) {
       socket.terminate();
     }
     for (const socket of Object.values(this.debugSockets)) {
       socket.terminate();
     }
+    for (const socket of Object.values(this.spectators)) {
+      socket.terminate();
+    }
+    this.brain = null;
+  }
+
+  /**
+   * Turns the player into a bot that receives its events through a callback instead of a socket.
+   * @param brain Is called with every event sent to the player and sends the bot's commands.
+   */
+  public controlBy(brain: BotBrain<Events, Commands>) {
+    this.brain = brain;
+    this.logger.info("The player is now controlled by a bot.");
+  }
+
+  /**
+   * Checks if the player is controlled by a bot.
+   * @returns whether the player is a bot.
+   */
+  public isBot(): boolean {
+    return this.brain !== null;
   }
 
   /**
@@ -57,21 +108,45 @@ export abstract class Player<Config extends object = object> {
    *
    * All connected game sockets are able to control the player and
    * receive all events emitted to the player.
+   *
+   * If `lastSeq` is provided, all events with a greater sequence number that
+   * are still in the outbox are replayed to the socket before live events resume.
    * @param gameSocket The game socket to associate with the player.
+   * @param lastSeq The sequence number of the last event the client received.
    */
-  public addGameSocket(gameSocket: GameSocket) {
+  public addGameSocket(gameSocket: GameSocket<Config>, lastSeq: number | null = null) {
+    if (lastSeq !== null) this.replayEvents(gameSocket, lastSeq);
     this.gameSockets[gameSocket.id] = gameSocket;
     this.logger.info("A new game socket connected to the player.", { socket_id: gameSocket.id });
   }
 
+  /**
+   * Sends all events that a socket missed since `lastSeq`.
+   * @param gameSocket The game socket to replay the events to.
+   * @param lastSeq The sequence number of the last event the client received.
+   */
+  private replayEvents(gameSocket: GameSocket<Config>, lastSeq: number) {
+    if (lastSeq > this.seq) {
+      this.logger.warn(`Cannot resume from sequence number ${lastSeq} because the last event sent has sequence number ${this.seq}.`, { socket_id: gameSocket.id });
+      return;
+    }
+    const missed = this.outbox.filter((event) => event.seq > lastSeq);
+    const oldest = this.outbox[0]?.seq ?? this.seq + 1;
+    if (oldest > lastSeq + 1) {
+      this.logger.warn(`${oldest - lastSeq - 1} missed events are no longer in the outbox and cannot be replayed.`, { socket_id: gameSocket.id, last_seq: lastSeq });
+    }
+    for (const event of missed) gameSocket.send(event);
+    this.logger.info(`Replayed ${missed.length} missed events.`, { socket_id: gameSocket.id, last_seq: lastSeq });
+  }
+
   /**
    * Disconnects a socket from the player.
    * @param socket The game socket that is to be disconnected.
   */
-  public removeGameSocket(socket: GameSocket) {
+  public removeGameSocket(socket: GameSocket<Config>) {
     delete this.gameSockets[socket.id];
     this.logger.info("A game socket disconnected from the player.", { socket_id: socket.id });
-    if (Object.keys(this.gameSockets).length === 0) this.inactiveSince = Date.now();
+    if (Object.keys(this.gameSockets).length === 0) this.inactiveSince = clock.now();
   }
 
   /**
@@ -91,26 +166,105 @@ export abstract class Player<Config extends object = object> {
   }
 
   /**
-   * Checks if the player has any sockets.
+   * Adds a read-only socket that receives all events sent to the player.
+   * @param socket The socket that wants to watch the player.
+   */
+  public addSpectator(socket: PlayerSpectatorSocket<Config>) {
+    this.spectators[socket.id] = socket;
+    this.logger.info(`A new spectator is now watching the player. (total spectators: ${Object.keys(this.spectators).length})`);
+  }
+
+  /**
+   * Removes a spectator from the player.
+   * @param socket The spectating socket to remove from the player.
+   */
+  public removeSpectator(socket: PlayerSpectatorSocket<Config>) {
+    delete this.spectators[socket.id];
+    this.logger.info(`A spectator has stopped watching the player. (total spectators: ${Object.keys(this.spectators).length})`);
+  }
+
+  public getSpectatorCount(): number {
+    return Object.keys(this.spectators).length;
+  }
+
+  /**
+   * Checks if the player has any sockets or is a bot.
    * @returns whether the player is active.
    */
   public active(): boolean {
-    return Object.keys(this.gameSockets).length !== 0;
+    return this.brain !== null || Object.keys(this.gameSockets).length !== 0;
+  }
+
+  /**
+   * Sends an event to all game sockets and spectators associated with the player.
+   *
+   * The event is tagged with the next sequence number and kept in the
+   * outbox so that it can be replayed to sockets that reconnect.
+   * If the game forwards its events to a sink, the event is handed to the sink instead.
+   * @param event The event to send to all the player's game sockets, which is one of the game's events or one of the standard events.
+   */
+  public sendEvent<E extends Events | BuiltinEvent = Events>(event: E) {
+    const sink = this.game.getEventSink();
+    if (sink) {
+      sink.send(this.id, event);
+      return;
+    }
+    const sent: Events | BuiltinEvent = event;
+    const sequenced: SequencedEvent<Events | BuiltinEvent> = { ...sent, seq: ++this.seq };
+    this.outbox.push(sequenced);
+    if (this.outbox.length > this.MAX_OUTBOX_SIZE) this.outbox.shift();
+    Object.values(this.gameSockets).forEach((socket) => socket.send(sequenced));
+    Object.values(this.spectators).forEach((socket) => socket.send(sequenced));
+    if (this.brain) this.think(this.brain, sequenced);
+    this.game.recordPlayerEvent(this.id, event);
+    this.logger.trace(`Sent event "${event.name}".`, { event: sequenced });
+  }
+
+  /**
+   * Hands an event to a bot's brain once the code that sent it has finished,
+   * so that the bot's commands never interrupt the game logic.
+   * @param brain The brain of the bot.
+   * @param event The event.
+   */
+  private think(brain: BotBrain<Events, Commands>, event: SequencedEvent<Events | BuiltinEvent>) {
+    queueMicrotask(() => {
+      if (this.brain !== brain) return;
+      try {
+        brain(event, (command) => {
+          if (this.brain !== brain) return;
+          const errors = this.game.validateBotCommand(command);
+          if (errors.length > 0) {
+            this.logger.error(`Command "${command.name}" of the bot does not match the CGE file and was rejected.`, { invalid_command: command, errors });
+          } else {
+            this.handleCommandInternalWrapper(command);
+          }
+        });
+      } catch (err) {
+        this.logger.error(`The bot failed to handle event "${event.name}".`, { error: String(err) });
+      }
+    });
   }
 
   /**
-   * Sends an event to all game sockets associated with the player.
-   * @param event The event to send to all the player's game sockets.
+   * Checks whether the player's game handles a command itself instead of passing it to `handleCommand`.
+   * @param name The name of the command.
+   * @returns whether the command is reserved.
    */
-  public sendEvent<E extends AnyEvent = AnyEvent>(event: E) {
-    Object.values(this.gameSockets).forEach((socket) => socket.send(event));
-    this.logger.trace(`Sent event "${event.name}".`, { event });
+  public isReservedCommand(name: string): boolean {
+    return this.game.isReservedCommand(name);
   }
 
-  public handleCommandInternalWrapper(command: AnyCommand) {
+  public handleCommandInternalWrapper(command: Commands) {
+    const metrics = this.game.getMetrics();
     try {
+      metrics?.commandsReceived.inc();
       this.logger.trace(`Received command "${command.name}".`, { command });
-      if (!this.handleCommand(command)) this.logger.error(`Command "${command.name}" is unknown and cannot be handled.`, { command });
+      if (this.game.handleReservedCommand(this, command)) return;
+      if (!this.game.commandAllowed(this, command)) return;
+      if (!this.handleCommand(command)) {
+        metrics?.unknownCommands.inc();
+        this.logger.error(`Command "${command.name}" is unknown and cannot be handled.`, { command });
+      }
     } catch (err) {
       console.error(err);
     }
@@ -121,5 +275,5 @@ export abstract class Player<Config extends object = object> {
    * @param command The command to be handled.
    * @returns whether the event was handled.
    */
-  public abstract handleCommand(command: AnyCommand): boolean;
+  public abstract handleCommand(command: Commands): boolean;
 }
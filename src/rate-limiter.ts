@@ -0,0 +1,107 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { clock } from "./clock.js";
+
+/** The parameters of a token bucket. */
+export interface RateLimit {
+  /** The number of tokens that are added to the bucket per second. */
+  rate: number;
+  /** The maximum number of tokens in the bucket, which is the number of requests allowed in a burst. */
+  burst: number;
+}
+
+/** How often idle buckets are removed in milliseconds. */
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+type Bucket = {
+  tokens: number,
+  /** The unix timestamp in milliseconds at which `tokens` was last updated. */
+  updatedAt: number;
+};
+
+/** Limits the rate of actions per key, e.g. per IP address or per player, using token buckets. */
+export class RateLimiter {
+  public readonly limit: Readonly<RateLimit>;
+  /** The bucket of every key that has recently taken a token. */
+  private readonly buckets = new Map<string, Bucket>();
+  /** The unix timestamp in milliseconds at which idle buckets were last removed. */
+  private lastPrune = clock.now();
+
+  /**
+   * Creates a new rate limiter.
+   * @param limit The parameters of each key's token bucket.
+   */
+  public constructor(limit: RateLimit) {
+    this.limit = { rate: Math.max(limit.rate, 0), burst: Math.max(limit.burst, 1) };
+  }
+
+  /**
+   * Takes a token from a key's bucket.
+   * @param key The key to rate limit, e.g. an IP address.
+   * @returns whether a token was available, meaning the action is allowed.
+   */
+  public take(key: string): boolean {
+    const now = clock.now();
+    this.prune(now);
+    const bucket = this.refill(key, now);
+    if (bucket.tokens < 1) return false;
+    bucket.tokens--;
+    return true;
+  }
+
+  /**
+   * Calculates how long a key has to wait for its next token.
+   * @param key The rate limited key.
+   * @returns the time in seconds, rounded up.
+   */
+  public retryAfterSeconds(key: string): number {
+    const bucket = this.refill(key, clock.now());
+    if (bucket.tokens >= 1) return 0;
+    if (this.limit.rate === 0) return Infinity;
+    return Math.ceil((1 - bucket.tokens) / this.limit.rate);
+  }
+
+  /**
+   * Adds the tokens that accumulated since the bucket was last updated.
+   * @returns the bucket of the key.
+   */
+  private refill(key: string, now: number): Bucket {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: this.limit.burst, updatedAt: now };
+      this.buckets.set(key, bucket);
+    }
+    bucket.tokens = Math.min(bucket.tokens + (now - bucket.updatedAt) / 1000 * this.limit.rate, this.limit.burst);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  /** Removes the buckets that have refilled completely, as they are equivalent to new ones. */
+  private prune(now: number) {
+    if (now - this.lastPrune < PRUNE_INTERVAL_MS) return;
+    this.lastPrune = now;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) / 1000 * this.limit.rate >= this.limit.burst) this.buckets.delete(key);
+    }
+  }
+}
+
+/**
+ * Creates an express middleware that answers with `429 Too Many Requests` when an IP address exceeds its rate limit.
+ *
+ * Note that `req.ip` is the address of the proxy if the server runs behind one,
+ * unless express' `trust proxy` setting is configured.
+ * @param limiter The rate limiter keyed by IP address or `null` to disable rate limiting.
+ * @returns an express middleware.
+ */
+export function rateLimitByIp(limiter: RateLimiter | null): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const ip = req.ip || req.socket.remoteAddress || "";
+    if (!limiter || limiter.take(ip)) {
+      next();
+      return;
+    }
+    const retryAfter = limiter.retryAfterSeconds(ip);
+    if (isFinite(retryAfter)) res.setHeader("Retry-After", String(retryAfter));
+    res.status(429).send("Too many requests. Please try again later.");
+  };
+}
@@ -0,0 +1,91 @@
+import { createWriteStream, mkdirSync, renameSync, type WriteStream } from "fs";
+import { readFile } from "fs/promises";
+import { join } from "path";
+import type { AnyEvent } from "./game-socket.js";
+
+/** A single outgoing event in a game's recording. */
+export type RecordingEntry = {
+  /** The unix timestamp in milliseconds at which the event was sent. */
+  timestamp: number,
+  /** The ID of the player the event was sent to or `null` if the event was broadcast. */
+  player_id: string | null,
+  /** The IDs of the players that a broadcast event was not sent to. */
+  omitted_player_ids?: string[],
+  event: AnyEvent;
+};
+
+/** Persists game recordings. Implement this interface to store recordings somewhere else than on disk. */
+export interface RecordingStore {
+  /**
+   * Appends an entry to the recording of a game.
+   * @param gameId The ID of the recorded game.
+   * @param entry The entry to append.
+   */
+  append(gameId: string, entry: RecordingEntry): void;
+  /**
+   * Marks the recording of a game as finished. No more entries will be appended afterwards.
+   * @param gameId The ID of the recorded game.
+   */
+  finish(gameId: string): void;
+  /**
+   * Loads the recording of a finished game.
+   * @param gameId The ID of the recorded game.
+   * @returns the entries in the order they were appended or `null` if there is no finished recording.
+   */
+  load(gameId: string): Promise<RecordingEntry[] | null>;
+}
+
+/**
+ * Stores each recording as a JSON Lines file named after the game ID.
+ *
+ * Recordings in progress have the `.jsonl.part` extension,
+ * which is removed once the recording is finished.
+ */
+export class FileRecordingStore implements RecordingStore {
+  /** The directory that the recordings are stored in. */
+  private readonly directory: string;
+  /** Open write streams of recordings in progress. */
+  private readonly streams: { [index: string]: WriteStream; } = {};
+
+  /**
+   * Creates a new `FileRecordingStore`.
+   * @param directory The directory that the recordings are stored in. It is created if it does not exist.
+   */
+  public constructor(directory: string) {
+    this.directory = directory;
+    mkdirSync(directory, { recursive: true });
+  }
+
+  public append(gameId: string, entry: RecordingEntry) {
+    if (!this.streams[gameId]) this.streams[gameId] = createWriteStream(this.path(gameId) + ".part", { flags: "a" });
+    this.streams[gameId].write(JSON.stringify(entry) + "\n");
+  }
+
+  public finish(gameId: string) {
+    const stream = this.streams[gameId];
+    if (!stream) return;
+    delete this.streams[gameId];
+    stream.end(() => {
+      try {
+        renameSync(this.path(gameId) + ".part", this.path(gameId));
+      } catch (err) {
+        console.error(err);
+      }
+    });
+  }
+
+  public async load(gameId: string): Promise<RecordingEntry[] | null> {
+    // game IDs are used as file names, so anything but a UUID is refused
+    if (!/^[A-Fa-f0-9\-]+$/.test(gameId)) return null;
+    try {
+      const contents = await readFile(this.path(gameId), "utf-8");
+      return contents.split("\n").filter((line) => line.length > 0).map((line) => JSON.parse(line));
+    } catch (_err) {
+      return null;
+    }
+  }
+
+  private path(gameId: string) {
+    return join(this.directory, `${gameId}.jsonl`);
+  }
+}
@@ -0,0 +1,221 @@
+import { Game, GameState, HOST_COMMANDS, READY_COMMAND } from "./game.js";
+import { Player } from "./player.js";
+import { Severity } from "./logger.js";
+import type { AnyCommand } from "./game-socket.js";
+import type { WorkerPool } from "./worker-pool.js";
+import type { FromWorker, GameSnapshot, ToWorker } from "./worker-messages.js";
+
+/**
+ * Stands in for a game that runs in a worker thread.
+ *
+ * Players, sockets, spectators and recordings live in the main thread. Commands are forwarded to the worker,
+ * which sends back events, log messages and snapshots of the game's state.
+ */
+export class RemoteGame<Config extends object = object> extends Game<Config> {
+  private readonly pool: WorkerPool;
+  /** Sends a message to the worker that hosts the game. */
+  private readonly post: (message: ToWorker) => void;
+  /** The latest state reported by the worker or `null` if the worker has not reported yet. */
+  private snapshot: GameSnapshot | null = null;
+  /** Whether joining was disallowed by the main thread, which takes effect before the worker reports it. */
+  private joiningLocked = false;
+  /** Resolves once the worker has reported the game's state for the first time or the game has been terminated. */
+  public readonly created: Promise<void>;
+  private resolveCreated: () => void = () => { };
+
+  /**
+   * Creates a new game in a worker thread.
+   *
+   * The game is full and its config is empty until the worker has reported the game's state.
+   * Wait for `created` before adding players.
+   * @param pool The workers to host the game on.
+   * @param _protected Whether the game should be protected by a join secret.
+   * @param config Custom config options provided at creation time.
+   */
+  public constructor(pool: WorkerPool, _protected: boolean, config?: object) {
+    super(_protected, config);
+    this.created = new Promise((resolve) => this.resolveCreated = resolve);
+    this.pool = pool;
+    this.post = pool.host(this.id, (message) => this.receive(message));
+    this.post({ type: "create", game_id: this.id, protected: _protected, config });
+  }
+
+  /** The config is sanitized by the game in the worker, which reports the result. */
+  protected configSanitizer(): Config {
+    return {} as Config;
+  }
+
+  /**
+   * Bots are not supported because their brains would have to receive the events in the worker.
+   * @throws always.
+   */
+  public addBot(): Player<Config> {
+    throw "Bots are not supported when games run in worker threads.";
+  }
+
+  protected createPlayer(username: string): Player<Config> {
+    return new RemotePlayer(this, username);
+  }
+
+  protected playerAdded(player: Player<Config>): void {
+    this.post({ type: "add_player", game_id: this.id, player_id: player.id, username: player.username });
+  }
+
+  protected playerRemoved(player: Player<Config>): void {
+    this.post({ type: "remove_player", game_id: this.id, player_id: player.id });
+  }
+
+  /**
+   * Sends a command to the game in the worker.
+   * @param player The player that sent the command.
+   * @param command The command.
+   */
+  public forwardCommand(player: Player<Config>, command: AnyCommand) {
+    this.post({ type: "command", game_id: this.id, player_id: player.id, command });
+  }
+
+  public terminate(reason = "inactivity") {
+    super.terminate(reason);
+    this.resolveCreated();
+    this.post({ type: "terminate", game_id: this.id, reason });
+    this.pool.release(this.id);
+  }
+
+  public allowJoining() {
+    this.joiningLocked = false;
+    this.post({ type: "joining", game_id: this.id, allowed: true });
+  }
+
+  public disallowJoining() {
+    this.joiningLocked = true;
+    this.post({ type: "joining", game_id: this.id, allowed: false });
+  }
+
+  public joinable() {
+    return !this.joiningLocked && (this.snapshot ? this.snapshot.joinable : true);
+  }
+
+  public startByHost() {
+    if (this.getState() !== GameState.LOBBY) throw "Only games in the lobby can be started.";
+    this.post({ type: "start", game_id: this.id });
+  }
+
+  /**
+   * Sends config changes to the game in the worker, which validates them.
+   * Changes that the worker rejects are logged instead of being thrown.
+   * @param changes The new values of the fields to change.
+   */
+  public updateConfig(changes: object) {
+    if (typeof changes !== "object" || changes === null || Array.isArray(changes)) throw "The config changes must be an object.";
+    this.post({ type: "update_config", game_id: this.id, changes });
+  }
+
+  public getMaxPlayerCount(): number {
+    return this.snapshot ? this.snapshot.max_player_count : 0;
+  }
+
+  public getMaxInactiveTimeMinutes(): number {
+    return this.snapshot ? this.snapshot.max_inactive_time_minutes : super.getMaxInactiveTimeMinutes();
+  }
+
+  public isReservedCommand(name: string): boolean {
+    return name === READY_COMMAND ? !!this.snapshot?.reserves_ready : super.isReservedCommand(name);
+  }
+
+  public playerSpectatingAllowed(player: Player<Config>): boolean {
+    return !!this.snapshot?.spectatable.includes(player.id);
+  }
+
+  public getState(): GameState {
+    return this.snapshot ? this.snapshot.state : GameState.LOBBY;
+  }
+
+  public isReady(playerId: string): boolean {
+    return !!this.snapshot?.ready.includes(playerId);
+  }
+
+  public getReadyPlayerCount(): number {
+    return this.snapshot ? this.snapshot.ready.length : 0;
+  }
+
+  public getTeam(playerId: string): string | null {
+    const team = Object.entries(this.snapshot?.teams || {}).find(([, members]) => members.includes(playerId));
+    return team ? team[0] : null;
+  }
+
+  public getTeams(): { [index: string]: string[]; } {
+    return Object.fromEntries(Object.entries(this.snapshot?.teams || {}).map(([team, members]) => [team, [...members]]));
+  }
+
+  public getTeamMembers(team: string): Player<Config>[] {
+    return (this.snapshot?.teams[team] || []).map((playerId) => this.getPlayer(playerId)).filter((player): player is Player<Config> => !!player);
+  }
+
+  /**
+   * Handles a message from the worker.
+   * @param message The message.
+   */
+  private receive(message: FromWorker) {
+    switch (message.type) {
+      case "snapshot":
+        this.snapshot = message.snapshot;
+        for (const key of Object.keys(this.config)) delete (this.config as { [index: string]: unknown; })[key];
+        Object.assign(this.config, message.snapshot.config);
+        this.resolveCreated();
+        break;
+      case "event":
+        this.getPlayer(message.player_id)?.sendEvent(message.event);
+        break;
+      case "broadcast":
+        this.broadcastEvent(message.event, ...message.omit);
+        break;
+      case "log": {
+        const { severity, message: text, data, player_id } = message.record;
+        const logger = (player_id && this.getPlayer(player_id)?.logger) || this.logger;
+        if (severity === Severity.ERROR) logger.error(text, data);
+        else if (severity === Severity.WARNING) logger.warn(text, data);
+        else if (severity === Severity.INFO) logger.info(text, data);
+        else logger.trace(text, data);
+        break;
+      }
+      case "player_removed": {
+        // the game removed the player itself, e.g. by kicking them or at the end of the game
+        const player = this.getPlayer(message.player_id);
+        if (!player) break;
+        this.removePlayer(player);
+        player.terminate("removal by the game");
+        break;
+      }
+      case "player_rejected": {
+        const player = this.getPlayer(message.player_id);
+        if (!player) break;
+        player.logger.error(`The player was rejected by the game: ${message.reason}`);
+        this.removePlayer(player);
+        player.terminate("rejection by the game");
+        break;
+      }
+    }
+  }
+}
+
+/** Stands in for a player of a game that runs in a worker thread. */
+class RemotePlayer<Config extends object = object> extends Player<Config> {
+  protected game: RemoteGame<Config>;
+
+  public constructor(game: RemoteGame<Config>, username: string) {
+    super(username);
+    this.game = game;
+  }
+
+  public handleCommandInternalWrapper(command: AnyCommand) {
+    this.game.getMetrics()?.commandsReceived.inc();
+    // the host is only known to the main thread
+    if (HOST_COMMANDS.includes(command.name)) this.game.handleReservedCommand(this, command);
+    else this.game.forwardCommand(this, command);
+  }
+
+  /** Commands are handled by the worker. */
+  public handleCommand(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,60 @@
+import type { WebSocket } from "ws";
+import type { RecordingEntry } from "./recorder.js";
+import { Socket } from "./socket.js";
+import type { Codec } from "./codecs.js";
+import type { ServerMetrics } from "./metrics.js";
+import { clock, type Timer } from "./clock.js";
+
+/** Streams the recording of a finished game to its websocket peer. */
+export class ReplaySocket extends Socket {
+  /** The entries that are yet to be sent, oldest first. */
+  private readonly entries: RecordingEntry[];
+  /** The factor by which the replay is sped up. */
+  private readonly speed: number;
+  /** The timer for the next entry. */
+  private timeout?: Timer;
+
+  /**
+   * Creates a new replay socket and starts streaming.
+   * @param socket The `WebSocket` instance to be associated with this socket.
+   * @param heartbeatIntervalSeconds The time between pings in seconds.
+   * @param entries The recording to replay.
+   * @param speed The factor by which the replay is sped up. `1` replays the game in real time.
+   * @param playerId The ID of the player whose perspective to replay or `null` to replay what spectators saw.
+   * @param codec The codec that was negotiated for the connection.
+   * @param metrics The registry that the socket's metrics are counted in or `null` if they are not counted.
+   */
+  public constructor(socket: WebSocket, heartbeatIntervalSeconds: number, entries: RecordingEntry[], speed: number, playerId: string | null, codec?: Codec, metrics: ServerMetrics | null = null) {
+    super(socket, heartbeatIntervalSeconds, codec, undefined, metrics);
+    this.speed = speed > 0 ? speed : 1;
+    this.entries = entries.filter((entry) => playerId === null
+      ? entry.player_id === null
+      : entry.player_id === playerId || (entry.player_id === null && !entry.omitted_player_ids?.includes(playerId))
+    );
+    this.scheduleNext(this.entries[0]?.timestamp);
+  }
+
+  /**
+   * Sends the next entry after the time that passed between it and the previous one.
+   * @param previousTimestamp The timestamp of the previously sent entry.
+   */
+  private scheduleNext(previousTimestamp?: number) {
+    const entry = this.entries.shift();
+    if (!entry || previousTimestamp === undefined) {
+      this.socket.close();
+      return;
+    }
+    this.timeout = clock.setTimeout(() => {
+      try {
+        this.sendMessage(entry.event);
+      } catch (err) {
+        console.error(err);
+      }
+      this.scheduleNext(entry.timestamp);
+    }, Math.max(entry.timestamp - previousTimestamp, 0) / this.speed);
+  }
+
+  protected onDisconnect(): void {
+    if (this.timeout) clock.clearTimer(this.timeout);
+  }
+}
@@ -1,5 +1,7 @@
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+
 /**
- * Generates a random string in the range `[A-Za-z0-9]`.
+ * Generates a cryptographically secure random string in the range `[A-Za-z0-9]`.
  * @param length The length of the secret in characters.
  * @returns a random string of the given length.
  */
@@ -7,7 +9,20 @@ export function randomSecret(length = 64) {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
   let str = '';
   for (let i = 0; i < length; i++) {
-    str += chars.charAt(Math.floor(Math.random() * chars.length));
+    str += chars.charAt(randomInt(chars.length));
   }
   return str;
 }
+
+/**
+ * Compares two secrets in constant time so that the comparison does not reveal how much of a guess is correct.
+ * @param given The secret provided by a client, which might not even be a string if it was taken from a request body.
+ * @param expected The actual secret.
+ * @returns whether the secrets are equal.
+ */
+export function secretsEqual(given: unknown, expected: string): boolean {
+  if (typeof given !== "string") return false;
+  // hashing gives both buffers the same length, which `timingSafeEqual` requires
+  const hash = (secret: string) => createHash("sha256").update(secret).digest();
+  return timingSafeEqual(hash(given), hash(expected));
+}
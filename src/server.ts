@@ -1,39 +1,154 @@
-import { createServer, type Server } from "http";
+import { createServer, type Server, type IncomingMessage, type IncomingHttpHeaders } from "http";
+import type { Socket as NetSocket } from "net";
+import type { Duplex } from "stream";
 import express from "express";
 import cors from "cors";
 import { WebSocketServer } from "ws";
 import { createApi, type Info } from "./api.js";
+import { createAdminApi } from "./admin-api.js";
 import { DebugSocket } from "./debug-socket.js";
 import { GameSocket } from "./game-socket.js";
+import type { OutboundOptions } from "./socket.js";
 import { SpectatorSocket } from "./spectator-socket.js";
-import { Logger } from "./logger.js";
+import { PlayerSpectatorSocket } from "./player-spectator-socket.js";
+import { ReplaySocket } from "./replay-socket.js";
+import type { RecordingStore } from "./recorder.js";
+import { Matchmaker, type MatchmakingOptions } from "./matchmaker.js";
+import { MatchmakingSocket } from "./matchmaking-socket.js";
+import { RateLimiter, type RateLimit } from "./rate-limiter.js";
+import { Logger, type LogTransport } from "./logger.js";
+import { ServerMetrics } from "./metrics.js";
+import { loadCGE, type CGE } from "./cge.js";
+import { jsonCodec, msgpackCodec, type Codec } from "./codecs.js";
 import type { Game } from "./game.js";
+import type { Player } from "./player.js";
+import { RemoteGame } from "./remote-game.js";
+import { WorkerPool, type WorkerOptions } from "./worker-pool.js";
+import { UpgradeRouter, type UpgradeRejection } from "./upgrade-router.js";
+import { SessionTokens, SESSION_TOKEN_PROTOCOL_PREFIX, type SessionTokenOptions } from "./session-tokens.js";
+import { secretsEqual } from "./secret.js";
 import { CG_VERSION } from "./lib.js";
 
 /** Game IDs mapped to game instances. */
 interface Games<Config extends object = object> { [index: string]: Game<Config>; }
 
+/** Optional features of the `GameServer`. */
+export interface GameServerOptions {
+  /** Records every game to this store and enables the `/api/games/{gameId}/replay` route. */
+  recordingStore?: RecordingStore;
+  /** Enables the `/api/matchmaking` routes, which pair waiting players automatically. */
+  matchmaking?: MatchmakingOptions;
+  /** Enables the `/api/admin` routes, which require this token in an `Authorization: Bearer <token>` header. */
+  adminToken?: string;
+  /** Token bucket rate limits. Actions without a limit are not rate limited. */
+  rateLimits?: {
+    /** Limits `POST /api/games` and, if matchmaking creates a game for every player, matchmaking requests per IP address. */
+    createGame?: RateLimit,
+    /** Limits `POST /api/games/{gameId}/players`, `POST /api/games/{gameId}/bots` and both matchmaking routes per IP address. */
+    createPlayer?: RateLimit,
+    /** Limits the commands each player can send. Commands over the limit are dropped. */
+    commands?: RateLimit;
+  };
+  /** Enables the `/api/metrics` route, which exposes metrics in the Prometheus text format. The default is `false`. */
+  metrics?: boolean;
+  /** Calls `shutdown` when the process receives `SIGTERM` or `SIGINT`. The default is `false`. */
+  shutdownOnSignals?: boolean;
+  /** The time in seconds players and spectators are given after being notified of a shutdown. The default is 10 seconds. */
+  shutdownGracePeriodSeconds?: number;
+  /**
+   * Receive the log records of the server, all games and all players.
+   * If none are specified, messages logged with `*Stdout` methods are printed to the console.
+   */
+  logTransports?: LogTransport[];
+  /**
+   * Additional codecs that clients can select with the `Sec-WebSocket-Protocol` header.
+   * JSON (`json`) and MessagePack (`msgpack`) are always available. Connections without a subprotocol use JSON.
+   */
+  codecs?: Codec[];
+  /** Batching and slow consumer options for game, spectator and debug sockets. */
+  outbound?: OutboundOptions;
+  /**
+   * Runs games in worker threads so that CPU-heavy games do not stall other games or the API.
+   * Metrics registered by games in worker threads are not exposed by `/api/metrics`.
+   * The games are created by the function passed to `hostGames`, so `null` should be passed as `createGame`.
+   * Bots are not supported in worker threads.
+   */
+  workers?: WorkerOptions;
+  /** The signing key and lifetime of the session tokens issued to players. */
+  sessionTokens?: SessionTokenOptions;
+  /**
+   * Whether websocket routes accept the `player_secret` and `host_secret` query parameters.
+   * Query parameters end up in access logs and browser histories, so clients should send session tokens instead.
+   * The default is `true`.
+   */
+  secretQueryParameters?: boolean;
+}
+
 export type CreateGameFn<Config extends object = object> = (_protected: boolean, config?: Config) => Game<Config>;
 
+/** The secrets of a deleted game that allow replaying the perspective of its players. */
+type ReplayCredentials = {
+  hostSecret: string,
+  /** Player IDs mapped to player secrets. */
+  playerSecrets: Map<string, string>;
+};
+
 const DEFAULT_PORT = 8080;
 const DEFAULT_GAMES_COUNT = 500;
 const DEFAULT_HEARTBEAT_INTERVAL_SECONDS = 10 * 60;
+const DEFAULT_SHUTDOWN_GRACE_PERIOD_SECONDS = 10;
+/** The number of deleted games whose secrets are kept for authorizing replays. */
+const MAX_REPLAY_CREDENTIALS = 10000;
 
 export class GameServer<Config extends object = object> {
   /** The `http.Server` instance that powers the API and WebSockets. */
   public readonly server: Server;
   /** The websocket server encapsulated in the game server. */
   private wss: WebSocketServer;
+  /** Websocket subprotocols mapped to the codecs they select. */
+  private readonly codecs = new Map<string, Codec>();
+  /** Batching and slow consumer options for new sockets. */
+  private readonly outbound: OutboundOptions;
+  /** The worker threads that host the games or `null` if games run in the main thread. */
+  private readonly workerPool: WorkerPool | null;
   /** The maximum number of games that this server can have. */
   public readonly MAX_GAMES_COUNT: number;
   /** The time between pings in seconds. This option is to be passed to new Sockets on their creation. */
   public readonly HEARTBEAT_INTERVAL_SECONDS: number;
-  /** Creates new instances of descendants of `Game`. */
-  private readonly createGameFn: CreateGameFn<Config>;
+  /** Creates new instances of descendants of `Game`. Games in worker threads are created by the function passed to `hostGames` instead. */
+  private readonly createGameFn: CreateGameFn<Config> | null;
   /** A map of public games on the server. */
   private readonly publicGames: Games<Config> = {};
   /** A map of private games on the server. */
   private readonly privateGames: Games<Config> = {};
+  /** The store that games are recorded to or `null` if recording is disabled. */
+  private readonly recordingStore: RecordingStore | null;
+  /** The secrets of deleted recorded games by game ID, oldest first. They are lost when the server restarts. */
+  private readonly replayCredentials = new Map<string, ReplayCredentials>();
+  /** Pairs waiting players or `null` if matchmaking is disabled. */
+  public readonly matchmaker: Matchmaker<Config> | null;
+  /** Issues and verifies the session tokens of players. */
+  public readonly sessions: SessionTokens;
+  /** Whether websocket routes accept secrets in query parameters. */
+  private readonly secretQueryParameters: boolean;
+  /** The rate limiters for actions that are rate limited. */
+  public readonly rateLimiters: {
+    readonly createGame: RateLimiter | null,
+    readonly createPlayer: RateLimiter | null,
+    readonly commands: RateLimiter | null;
+  };
+  /** The parsed Code Game Events file that incoming commands are validated against. */
+  public readonly cge: CGE;
+  /** The time in seconds players and spectators are given after being notified of a shutdown. */
+  public readonly SHUTDOWN_GRACE_PERIOD_SECONDS: number;
+  /** Whether the `/api/metrics` route is enabled. */
+  public readonly metricsEnabled: boolean;
+  /** The built-in metrics and the metrics registered by the games of this server. */
+  public readonly metrics = new ServerMetrics();
+  /** The pending shutdown or `null` if the server is not shutting down. */
+  private shutdownPromise: Promise<void> | null = null;
+  /** All open HTTP connections, which are destroyed when the server shuts down. */
+  private readonly connections = new Set<NetSocket>();
   public readonly logger = new Logger<Config>();
 
   /**
@@ -42,19 +157,23 @@ export class GameServer<Config extends object = object> {
    * @param cgePath The file path to the Code Game Events file about the game.
    * @param webRoot The path to the root of the frontend. Specify `null` if there are no static assets.
    * @param createGame A function that is called to create a new game. An instance of `Game` must be returned.
+   * Specify `null` if the `workers` option is used, because games in worker threads are created by the function passed to `hostGames`.
    * @param port The port that the server will bind to.
    * @param maxGamesCount The maximum number of games allowed on the server at once.
    * @param heartbeatIntervalSeconds The time in seconds to wait before checking again whether a socket is still alive.
+   * @param options Optional features of the game server.
    * @returns an instance of `GameServer`.
+   * @throws if the CGE file cannot be read or parsed or if `createGame` is `null` without the `workers` option.
    */
   public constructor(
     info: Info,
     cgePath: string,
     webroot: string | null,
-    createGame: CreateGameFn<Config>,
+    createGame: CreateGameFn<Config> | null,
     port: number = DEFAULT_PORT,
     maxGamesCount: number = DEFAULT_GAMES_COUNT,
-    heartbeatIntervalSeconds: number = DEFAULT_HEARTBEAT_INTERVAL_SECONDS
+    heartbeatIntervalSeconds: number = DEFAULT_HEARTBEAT_INTERVAL_SECONDS,
+    options: GameServerOptions = {}
   ) {
     // Guards
     // These are necessary because `NaN != false` so the default parameters will
@@ -63,23 +182,75 @@ export class GameServer<Config extends object = object> {
     if (!maxGamesCount) maxGamesCount = DEFAULT_GAMES_COUNT;
     if (!heartbeatIntervalSeconds) heartbeatIntervalSeconds = DEFAULT_HEARTBEAT_INTERVAL_SECONDS;
 
+    // Logging
+    for (const transport of options.logTransports || []) this.logger.addTransport(transport);
+
+    // Events
+    this.cge = loadCGE(cgePath);
+
+    // Rate limits
+    const { createGame: createGameLimit, createPlayer: createPlayerLimit, commands: commandsLimit } = options.rateLimits || {};
+    this.rateLimiters = {
+      createGame: createGameLimit ? new RateLimiter(createGameLimit) : null,
+      createPlayer: createPlayerLimit ? new RateLimiter(createPlayerLimit) : null,
+      commands: commandsLimit ? new RateLimiter(commandsLimit) : null,
+    };
+
+    // Sessions
+    this.sessions = new SessionTokens(options.sessionTokens);
+    this.secretQueryParameters = options.secretQueryParameters ?? true;
+
+    // Metrics
+    this.metricsEnabled = options.metrics || false;
+
+    // Matchmaking
+    this.matchmaker = options.matchmaking ? new Matchmaker(this, options.matchmaking) : null;
+
     // Api
     const app = express();
     app.use(cors());
+    if (options.adminToken) app.use(createAdminApi(this, options.adminToken));
     app.use(createApi(this, webroot, cgePath, Object.assign(info, { cg_version: CG_VERSION.join(".") })));
 
     // Game
     this.createGameFn = createGame;
 
     // Server
-    this.wss = new WebSocketServer({ noServer: true });
+    this.outbound = options.outbound || {};
+    this.workerPool = options.workers ? new WorkerPool(options.workers, (gameIds, reason) => {
+      this.logger.errorStdout(`Deleting games after their worker thread failed: ${reason}`, { game_ids: gameIds });
+      for (const gameId of gameIds) this.deleteGame(gameId, "a failure of its worker thread");
+    }) : null;
+    if (!createGame && !this.workerPool) throw "A `createGame` function is required unless games run in worker threads.";
+    if (createGame && this.workerPool) this.logger.warnStdout("The `createGame` function is ignored because games in worker threads are created by the function passed to `hostGames`.");
+    for (const codec of [jsonCodec, msgpackCodec, ...(options.codecs || [])]) this.codecs.set(codec.name, codec);
+    this.wss = new WebSocketServer({
+      noServer: true,
+      handleProtocols: (protocols) => this.selectProtocol(protocols)
+    });
     this.server = createServer(app);
+    this.server.on("connection", (connection) => {
+      this.connections.add(connection);
+      connection.on("close", () => this.connections.delete(connection));
+    });
     this.handleUpgrades();
     this.server.listen(port, () => console.log(`Listening on port ${port}.`));
 
     // Config
     this.MAX_GAMES_COUNT = maxGamesCount;
     this.HEARTBEAT_INTERVAL_SECONDS = heartbeatIntervalSeconds;
+    this.recordingStore = options.recordingStore || null;
+    this.SHUTDOWN_GRACE_PERIOD_SECONDS = options.shutdownGracePeriodSeconds ?? DEFAULT_SHUTDOWN_GRACE_PERIOD_SECONDS;
+
+    // Signals
+    if (options.shutdownOnSignals) {
+      const onSignal = (signal: NodeJS.Signals) => {
+        this.logger.warnStdout(`Received ${signal}. Shutting down gracefully...`);
+        this.shutdown().then(() => process.exit(0));
+      };
+      process.once("SIGTERM", onSignal);
+      process.once("SIGINT", onSignal);
+    }
   }
 
   /**
@@ -95,7 +266,48 @@ export class GameServer<Config extends object = object> {
    */
   public close(onCloseCallback?: ((err?: Error | undefined) => void) | undefined) {
     this.server.close(onCloseCallback);
-    // TODO: Close all WebSockets if they are not already closed.
+    for (const ws of this.wss.clients) ws.terminate();
+    if (this.workerPool) this.workerPool.close();
+  }
+
+  /**
+   * Shuts the server down gracefully:
+   *
+   * 1. New games, players and websocket connections are refused.
+   * 2. All players and spectators receive the standard `server_shutdown` event.
+   * 3. After the grace period all games are terminated and all remaining connections are closed.
+   *
+   * Calling this again while the server is shutting down returns the same promise.
+   * @param gracePeriodSeconds The time in seconds to wait before terminating the games. The default is `SHUTDOWN_GRACE_PERIOD_SECONDS`.
+   * @returns a promise that resolves once the server is closed.
+   */
+  public shutdown(gracePeriodSeconds: number = this.SHUTDOWN_GRACE_PERIOD_SECONDS): Promise<void> {
+    if (this.shutdownPromise) return this.shutdownPromise;
+    this.shutdownPromise = new Promise((resolve) => {
+      const games = () => [...Object.values(this.publicGames), ...Object.values(this.privateGames)];
+      this.logger.infoStdout(`Shutting down in ${gracePeriodSeconds} seconds. (${games().length} games)`);
+      if (this.matchmaker) this.matchmaker.clear("The server is shutting down.");
+      for (const game of games()) {
+        game.disallowJoining();
+        game.broadcastShutdown(gracePeriodSeconds);
+      }
+      setTimeout(() => {
+        for (const game of games()) this.deleteGame(game.id, "the server shutting down");
+        if (this.workerPool) this.workerPool.close();
+        this.server.close(() => {
+          this.logger.infoStdout("The server has shut down.");
+          resolve();
+        });
+        for (const ws of this.wss.clients) ws.terminate();
+        for (const connection of this.connections) connection.destroy();
+      }, Math.max(gracePeriodSeconds, 0) * 1000);
+    });
+    return this.shutdownPromise;
+  }
+
+  /** Whether `shutdown` has been called. New games, players and connections are refused while shutting down. */
+  public shuttingDown(): boolean {
+    return this.shutdownPromise !== null;
   }
 
   /**
@@ -104,7 +316,19 @@ export class GameServer<Config extends object = object> {
    * @returns the game or undefined if the game does not exist.
   */
   public getGame(gameId: string): Game<Config> | undefined {
-    return this.publicGames[gameId] || this.privateGames[gameId];
+    const games = Object.prototype.hasOwnProperty.call(this.publicGames, gameId) ? this.publicGames : this.privateGames;
+    return Object.prototype.hasOwnProperty.call(games, gameId) ? games[gameId] : undefined;
+  }
+
+  /**
+   * Waits until a game can be joined. Games in worker threads cannot be joined before the worker has created them.
+   * @param gameId The game ID.
+   * @returns the game or undefined if the game does not exist or was deleted while waiting.
+   */
+  public async whenCreated(gameId: string): Promise<Game<Config> | undefined> {
+    const game = this.getGame(gameId);
+    if (game instanceof RemoteGame) await game.created;
+    return this.getGame(gameId);
   }
 
   public maxGamesCountReached() {
@@ -124,17 +348,29 @@ export class GameServer<Config extends object = object> {
    * @param _public Whether the game should be listed publicly.
    * @param _protected Whether the game should be protected by a join secret.
    * @param config Custom config options provided at creation time.
-   * @returns the game ID.
-   * @throws when the `MAX_GAMES_COUNT` is reached.
+   * @returns the game ID, the join secret and the host secret.
+   * @throws when the `MAX_GAMES_COUNT` is reached or the server is shutting down.
   */
-  public createGame(_public: boolean, _protected: boolean, config?: Config): { gameId: string, joinSecret?: string; } {
+  public createGame(_public: boolean, _protected: boolean, config?: Config): { gameId: string, joinSecret?: string, hostSecret: string; } {
+    if (this.shuttingDown()) {
+      const errorMessage = "The server is shutting down.";
+      this.logger.errorStdout("Unable to create a new game: " + errorMessage);
+      throw errorMessage;
+    }
     this.deleteInactive();
     if (this.maxGamesCountReached()) {
       const errorMessage = "The maximum number of games for this server has been reached.";
       this.logger.errorStdout("Unable to create a new game: " + errorMessage);
       throw errorMessage;
     }
-    const game = this.createGameFn(_protected, config);
+    let game: Game<Config>;
+    if (this.workerPool) game = new RemoteGame<Config>(this.workerPool, _protected, config);
+    else if (this.createGameFn) game = this.createGameFn(_protected, config);
+    else throw "A `createGame` function is required unless games run in worker threads.";
+    game.logger.setParent(this.logger);
+    game.exposeMetrics(this.metrics);
+    game.validateBotCommandsAgainst(this.cge);
+    if (this.recordingStore) game.startRecording(this.recordingStore);
     if (_public) {
       this.publicGames[game.id] = game;
       this.logger.infoStdout(`Created new public game ${game.id}.`);
@@ -145,94 +381,274 @@ export class GameServer<Config extends object = object> {
     return {
       gameId: game.id,
       joinSecret: game.secret,
+      hostSecret: game.hostSecret,
     };
   }
 
+  /**
+   * Terminates a game and removes it from the server.
+   * @param gameId The game ID.
+   * @param reason Why the game is deleted.
+   * @returns whether the game existed.
+   */
+  public deleteGame(gameId: string, reason?: string): boolean {
+    const game = this.getGame(gameId);
+    if (!game) return false;
+    game.terminate(reason);
+    this.keepReplayCredentials(game);
+    delete this.publicGames[gameId];
+    delete this.privateGames[gameId];
+    this.logger.info(`Deleted game ${gameId.slice(0, 8)}.`, { reason });
+    return true;
+  }
+
   /** Deletes inactive games. */
   protected deleteInactive() {
     const deleted: string[] = [];
     for (const [gameId, game] of Object.entries(this.publicGames)) {
       if (!game.active()) {
         game.terminate();
+        this.keepReplayCredentials(game);
         delete this.publicGames[gameId];
         delete this.privateGames[gameId];
         deleted.push(gameId);
       }
     }
     if (deleted.length > 0) {
+      this.metrics.gamesReaped.inc(deleted.length);
       this.logger.info(`Deleted ${deleted.length} inactive games.`, { deleted_games_ids: deleted });
     }
   }
 
+  /**
+   * Keeps the secrets of a deleted game if it was recorded, so that its players and host can replay it.
+   * @param game The deleted game.
+   */
+  private keepReplayCredentials(game: Game<Config>) {
+    if (!this.recordingStore) return;
+    const playerSecrets = new Map(Object.values(game.getPlayers()).map((player) => [player.id, player.secret]));
+    this.replayCredentials.set(game.id, { hostSecret: game.hostSecret, playerSecrets });
+    if (this.replayCredentials.size > MAX_REPLAY_CREDENTIALS) this.replayCredentials.delete(this.replayCredentials.keys().next().value);
+  }
+
+  /**
+   * Checks that a request to replay the perspective of a player was made by that player or by the host of the game.
+   * @param gameId The ID of the recorded game.
+   * @param playerId The ID of the player whose perspective is to be replayed.
+   * @param token The session token of the player or `null`.
+   * @param playerSecret The player secret or `null`.
+   * @param hostSecret The host secret of the game or `null`.
+   * @returns the rejection or `null` if the replay is allowed.
+   */
+  private refuseReplay(gameId: string, playerId: string, token: string | null, playerSecret: string | null, hostSecret: string | null): UpgradeRejection | null {
+    if (!token && !playerSecret && !hostSecret) {
+      return { status: 400, message: "Replaying the perspective of a player requires their session token or player secret or the host secret." };
+    }
+    const claims = token ? this.sessions.verify(token) : null;
+    if (claims && claims.game_id === gameId && claims.player_id === playerId) return null;
+    const credentials = this.replayCredentials.get(gameId);
+    const expectedPlayerSecret = credentials?.playerSecrets.get(playerId);
+    if (playerSecret && expectedPlayerSecret !== undefined && secretsEqual(playerSecret, expectedPlayerSecret)) return null;
+    if (hostSecret && credentials && secretsEqual(hostSecret, credentials.hostSecret)) return null;
+    return { status: 401, message: "The credentials do not allow replaying the perspective of this player." };
+  }
+
+  /**
+   * Updates the gauges that describe the current state of the server.
+   * @returns all metrics in the Prometheus text exposition format.
+   */
+  public collectMetrics(): string {
+    const games = [...Object.values(this.publicGames), ...Object.values(this.privateGames)];
+    this.metrics.games.set(Object.keys(this.publicGames).length, { visibility: "public" });
+    this.metrics.games.set(Object.keys(this.privateGames).length, { visibility: "private" });
+    this.metrics.players.set(games.reduce((sum, game) => sum + game.getPlayerCount(), 0));
+    this.metrics.spectators.set(games.reduce(
+      (sum, game) => sum + game.getSpectatorCount() + Object.values(game.getPlayers()).reduce((sum, player) => sum + player.getSpectatorCount(), 0),
+      0
+    ));
+    this.metrics.debugSockets.set(games.reduce(
+      (sum, game) => sum + game.logger.getDebugSocketCount() + Object.values(game.getPlayers()).reduce((sum, player) => sum + player.logger.getDebugSocketCount(), 0),
+      this.logger.getDebugSocketCount()
+    ));
+    return this.metrics.render();
+  }
+
+  /**
+   * Finds a player and checks their session token or, if there is none, their player secret.
+   * @param gameId The ID of the player's game.
+   * @param playerId The ID of the player.
+   * @param token The session token or `null`.
+   * @param secret The player secret or `null`.
+   * @returns the player or the HTTP status code and message to refuse the request with.
+   */
+  public authenticatePlayer(gameId: string, playerId: string, token: string | null, secret: string | null): { player: Player<Config>; } | { status: number, message: string; } {
+    if (!token && !secret) return { status: 400, message: "Please provide a session token or a player secret." };
+    if (token) {
+      const claims = this.sessions.verify(token);
+      if (!claims) return { status: 401, message: "The session token is invalid, expired or revoked." };
+      if (claims.game_id !== gameId || claims.player_id !== playerId) return { status: 403, message: "The session token belongs to a different player." };
+    }
+    const game = this.getGame(gameId);
+    if (!game) return { status: 404, message: "Game not found." };
+    const player = game.getPlayer(playerId);
+    if (!player) return { status: 404, message: "Player not found." };
+    if (!token && secret && !player.verifySecret(secret)) return { status: 401, message: "Incorrect player secret provided." };
+    return { player };
+  }
+
   /**
    * Handles HTTP websocket upgrade requests to the following URLs
    * by converting them to websocket connections and the `GameSocket`,
-   * `SpectatorSocket` or `DebugSocket` class:
+   * `SpectatorSocket`, `PlayerSpectatorSocket` or `DebugSocket` class:
    * 
-   * - `/api/debug` -> Debugs the entire server.
+   * - `/api/debug?severities=<severities>&games=<game-ids>` -> Debugs the entire server.
+   *   The comma separated `games` subscribe to the messages of those games. Players can be subscribed to with a control message.
+   * - `/api/matchmaking` -> Waits in the matchmaking queue if matchmaking is enabled.
    * - `/api/games/{gameId}/spectate` -> Spectates a game.
    * - `/api/games/{gameId}/debug` -> Debugs a game.
-   * - `/api/games/{gameId}/players/{playerId}/connect?player_secret=<the-secret>` -> Controls or spectates a player.
-   * - `/api/games/{gameId}/players/{playerId}/debug?player_secret=<the-secret>` -> Debugs a player.
+   * - `/api/games/{gameId}/replay?speed=<factor>&player_id=<player-id>` -> Replays a finished game if recording is enabled.
+   *   Without a `player_id` the replay shows what spectators saw. Replaying the perspective of a player requires
+   *   the player's session token or, unless the `secretQueryParameters` option is disabled, their `player_secret` or the game's `host_secret`.
+   * - `/api/games/{gameId}/players/{playerId}/connect` -> Controls or spectates a player.
+   *   Add `?last_seq=<sequence-number>` to resume a session and receive all events missed since then.
+   * - `/api/games/{gameId}/players/{playerId}/debug` -> Debugs a player.
+   * - `/api/games/{gameId}/players/{playerId}/spectate` -> Receives the events of a player without controlling it
+   *   if `Game.playerSpectatingAllowed` allows it.
+   *
+   * All debug routes accept a comma separated list of `severities` to receive, e.g. `?severities=error,warning`.
+   *
+   * The `connect` and player `debug` routes require the player's session token in an `Authorization: Bearer <token>` header
+   * or a `session.<token>` entry of the `Sec-WebSocket-Protocol` header. The `player_secret` query parameter is still accepted instead
+   * unless the `secretQueryParameters` option is disabled.
+   *
+   * The wire format is negotiated with the `Sec-WebSocket-Protocol` header, e.g. `msgpack`. The default is JSON,
+   * which is also used if only a `session.<token>` entry is sent. Requests that only offer unknown subprotocols are refused.
+   *
+   * Requests are validated before they are upgraded. Refused requests receive an HTTP response with a readable body:
+   * 400 for missing parameters, 401 for wrong secrets, 403 for forbidden actions, 404 for unknown routes, games, players
+   * and recordings, 429 for exceeded rate limits and 503 while the server is shutting down.
    */
   private handleUpgrades() {
-    this.server.on("upgrade", (request, socket, head) => {
-      this.wss.handleUpgrade(request, socket, head, (ws) => {
-        // TODO: return HTTP status codes as best as possible
-        if (!request.url) {
-          socket.destroy();
-          return;
-        }
-
-        if (request.url === "/api/debug") {
-          this.logger.addDebugSocket(new DebugSocket(ws, this, null, null, this.HEARTBEAT_INTERVAL_SECONDS));
-          return;
-        }
-
-        const { gameId, route, playerId, playerRoute, playerSecret } = GameServer.deserializeURL(request.url);
-        if (!gameId) {
-          socket.destroy();
-          return;
-        }
-
-        const game = this.getGame(gameId);
-        if (!game) {
-          socket.destroy();
+    const router = this.createUpgradeRouter();
+    this.server.on("upgrade", (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (this.shuttingDown()) {
+        UpgradeRouter.reject(socket, { status: 503, message: "The server is shutting down." });
+        return;
+      }
+      const protocols = (request.headers["sec-websocket-protocol"] || "").split(",").map((protocol) => protocol.trim()).filter((protocol) => protocol);
+      if (protocols.length > 0 && !this.selectProtocol(new Set(protocols))) {
+        UpgradeRouter.reject(socket, { status: 400, message: `None of the requested subprotocols is supported. The supported codecs are: ${[...this.codecs.keys()].join(", ")}.` });
+        return;
+      }
+      router.resolve(request).then((outcome) => {
+        if (typeof outcome !== "function") {
+          UpgradeRouter.reject(socket, outcome);
           return;
         }
-
-        if (route === "spectate") game.addSpectator(new SpectatorSocket(game, ws, this.HEARTBEAT_INTERVAL_SECONDS));
-        else if (route === "debug") game.logger.addDebugSocket(new DebugSocket(ws, null, game, null, this.HEARTBEAT_INTERVAL_SECONDS));
-        else if (route === "players" && playerId && playerSecret) {
-          const player = game.getPlayer(playerId);
-          if (!player.verifySecret(playerSecret)) {
-            socket.destroy();
-            return;
-          }
-          if (playerRoute === "connect") {
-            player.addGameSocket(new GameSocket(player, ws, this.HEARTBEAT_INTERVAL_SECONDS));
-          } else if (playerRoute === "debug") {
-            player.logger.addDebugSocket(new DebugSocket(ws, null, null, player, this.HEARTBEAT_INTERVAL_SECONDS));
-          }
-        }
+        this.wss.handleUpgrade(request, socket, head, (ws) => outcome(ws, this.codecs.get(ws.protocol) || jsonCodec));
+      }).catch((err) => {
+        this.logger.error("Unable to handle a websocket upgrade request.", { url: request.url, error: String(err) });
+        UpgradeRouter.reject(socket, { status: 500, message: "Unable to handle the request." });
       });
     });
   }
 
   /**
-   * Separates a given URL into its components.
-   * @param url The URL.
-   * @returns an object with the relevant components.
+   * Selects the subprotocol of a websocket connection from the subprotocols that the client requested.
+   * @param protocols The requested subprotocols.
+   * @returns the first requested codec, the session token if no codec was requested, in which case JSON is used,
+   * or `false` if none of the subprotocols is supported.
    */
-  private static deserializeURL(url: string): { gameId?: string, route?: string, playerId?: string, playerRoute?: string, playerSecret: string | null; } {
-    const pathMatcher = /^\/api\/games\/(?<gameId>[A-Fa-f0-9\-]+)\/(?<route>\w+)(\/(?<playerId>[A-Fa-f0-9\-]+)\/(?<playerRoute>\w+))*?(\?(?<query>.+))*?$/;
-    const { gameId, route, playerId, playerRoute, query } = pathMatcher.exec(url)?.groups || {};
-    return {
-      gameId,
-      route,
-      playerId,
-      playerRoute,
-      playerSecret: new URLSearchParams(query || "").get("player_secret")
-    };
+  private selectProtocol(protocols: Set<string>): string | false {
+    const requested = [...protocols];
+    return requested.find((protocol) => this.codecs.has(protocol))
+      || requested.find((protocol) => protocol.startsWith(SESSION_TOKEN_PROTOCOL_PREFIX))
+      || false;
+  }
+
+  /**
+   * Creates the routes described in `handleUpgrades`.
+   * @returns the router.
+   */
+  private createUpgradeRouter(): UpgradeRouter {
+    const router = new UpgradeRouter();
+    const gameNotFound: UpgradeRejection = { status: 404, message: "Game not found." };
+
+    /** Refuses requests with secrets in their query parameters if the `secretQueryParameters` option is disabled. */
+    const refuseQuerySecrets = (query: URLSearchParams): UpgradeRejection | null => (
+      !this.secretQueryParameters && (query.has("player_secret") || query.has("host_secret"))
+        ? { status: 400, message: "Secrets in query parameters are not accepted by this server. Please provide a session token instead." }
+        : null
+    );
+
+    /** Finds a player and checks the session token or the `player_secret` query parameter. */
+    const authenticate = (gameId: string, playerId: string, query: URLSearchParams, headers: IncomingHttpHeaders) => (
+      refuseQuerySecrets(query) || this.authenticatePlayer(gameId, playerId, SessionTokens.fromHeaders(headers), query.get("player_secret"))
+    );
+
+    router.route("/api/debug", (_, query) => (ws, codec) => {
+      this.logger.addDebugSocket(new DebugSocket(ws, this, null, null, this.HEARTBEAT_INTERVAL_SECONDS, query, codec, this.outbound, this.metrics));
+    });
+
+    router.route("/api/matchmaking", (_params, _query, _headers, address) => {
+      const matchmaker = this.matchmaker;
+      if (!matchmaker) return { status: 404, message: "Matchmaking is not enabled on this server." };
+      // every matched player is created and games for a single player are created right away
+      const limiters = [this.rateLimiters.createPlayer, matchmaker.PLAYERS_PER_GAME === 1 ? this.rateLimiters.createGame : null];
+      if (limiters.some((limiter) => limiter && !limiter.take(address))) return { status: 429, message: "Too many requests. Please try again later." };
+      return (ws, codec) => new MatchmakingSocket(matchmaker, ws, this.HEARTBEAT_INTERVAL_SECONDS, codec, this.metrics);
+    });
+
+    router.route("/api/games/:gameId/spectate", ({ gameId }) => {
+      const game = this.getGame(gameId);
+      if (!game) return gameNotFound;
+      return (ws, codec) => game.addSpectator(new SpectatorSocket(game, ws, this.HEARTBEAT_INTERVAL_SECONDS, codec, this.outbound, this.metrics));
+    });
+
+    router.route("/api/games/:gameId/debug", ({ gameId }, query) => {
+      const game = this.getGame(gameId);
+      if (!game) return gameNotFound;
+      return (ws, codec) => game.logger.addDebugSocket(new DebugSocket(ws, null, game, null, this.HEARTBEAT_INTERVAL_SECONDS, query, codec, this.outbound, this.metrics));
+    });
+
+    router.route("/api/games/:gameId/replay", async ({ gameId }, query, headers) => {
+      if (!this.recordingStore) return { status: 404, message: "Recording is not enabled on this server." };
+      if (this.getGame(gameId)) return { status: 403, message: "The game is still running and cannot be replayed yet." };
+      const playerId = query.get("player_id");
+      const refusal = playerId === null ? null : refuseQuerySecrets(query) || this.refuseReplay(gameId, playerId, SessionTokens.fromHeaders(headers), query.get("player_secret"), query.get("host_secret"));
+      if (refusal) return refusal;
+      const entries = await this.recordingStore.load(gameId);
+      if (!entries) return { status: 404, message: "Recording not found." };
+      return (ws, codec) => new ReplaySocket(ws, this.HEARTBEAT_INTERVAL_SECONDS, entries, Number(query.get("speed")), playerId, codec, this.metrics);
+    });
+
+    router.route("/api/games/:gameId/players/:playerId/connect", ({ gameId, playerId }, query, headers) => {
+      const found = authenticate(gameId, playerId, query, headers);
+      if (!("player" in found)) return found;
+      const { player } = found;
+      const lastSeq = Number(query.get("last_seq") ?? NaN);
+      return (ws, codec) => player.addGameSocket(
+        new GameSocket(player, ws, this.HEARTBEAT_INTERVAL_SECONDS, this.cge, this.rateLimiters.commands, codec, this.outbound, this.metrics),
+        Number.isInteger(lastSeq) && lastSeq >= 0 ? lastSeq : null
+      );
+    });
+
+    router.route("/api/games/:gameId/players/:playerId/debug", ({ gameId, playerId }, query, headers) => {
+      const found = authenticate(gameId, playerId, query, headers);
+      if (!("player" in found)) return found;
+      const { player } = found;
+      return (ws, codec) => player.logger.addDebugSocket(new DebugSocket(ws, null, null, player, this.HEARTBEAT_INTERVAL_SECONDS, query, codec, this.outbound, this.metrics));
+    });
+
+    router.route("/api/games/:gameId/players/:playerId/spectate", ({ gameId, playerId }) => {
+      const game = this.getGame(gameId);
+      if (!game) return gameNotFound;
+      const player = game.getPlayer(playerId);
+      if (!player) return { status: 404, message: "Player not found." };
+      if (!game.playerSpectatingAllowed(player)) return { status: 403, message: "Spectating this player is not allowed." };
+      return (ws, codec) => player.addSpectator(new PlayerSpectatorSocket(player, ws, this.HEARTBEAT_INTERVAL_SECONDS, codec, this.outbound, this.metrics));
+    });
+
+    return router;
   }
 }
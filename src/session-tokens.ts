@@ -0,0 +1,141 @@
+import { createHmac, randomBytes } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import { clock } from "./clock.js";
+import { secretsEqual } from "./secret.js";
+
+/** Options for the session tokens issued to players. */
+export interface SessionTokenOptions {
+  /** The key used to sign the tokens. The default is a random key, which invalidates all tokens when the server restarts. */
+  key?: string | Buffer;
+  /** The time in seconds a token is valid for. The default is 1 hour. */
+  ttlSeconds?: number;
+}
+
+/** The contents of a valid session token. */
+export type SessionClaims = {
+  game_id: string,
+  player_id: string,
+  /** The unix timestamp in seconds at which the token expires. */
+  expires_at: number,
+  /** Identifies the token so that it can be revoked. */
+  token_id: string;
+};
+
+/** A newly issued session token. */
+export type IssuedSessionToken = {
+  token: string,
+  /** The unix timestamp in seconds at which the token expires. */
+  expires_at: number;
+};
+
+/**
+ * The prefix of the `Sec-WebSocket-Protocol` entry that carries a session token, e.g. `session.<token>`.
+ * Browsers cannot set an `Authorization` header on websockets, so they send the token as a subprotocol,
+ * usually along with the subprotocol of a codec, e.g. `new WebSocket(url, ["msgpack", "session." + token])`.
+ * If no codec is requested, the server selects the session subprotocol and uses JSON.
+ */
+export const SESSION_TOKEN_PROTOCOL_PREFIX = "session.";
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+
+/**
+ * Issues and verifies signed, expiring session tokens that authenticate players.
+ *
+ * A token is `<payload>.<signature>`, where the payload is the base64url encoded JSON of its claims
+ * and the signature is the base64url encoded HMAC-SHA256 of the payload.
+ */
+export class SessionTokens {
+  private readonly key: string | Buffer;
+  /** The time in seconds a token is valid for. */
+  public readonly TTL_SECONDS: number;
+  /** The IDs of revoked tokens mapped to the time at which they expire anyway. */
+  private readonly revoked: { [index: string]: number; } = {};
+
+  /**
+   * Creates a new token issuer.
+   * @param options The signing key and lifetime of the tokens.
+   */
+  public constructor(options: SessionTokenOptions = {}) {
+    this.key = options.key || randomBytes(32);
+    this.TTL_SECONDS = options.ttlSeconds && options.ttlSeconds > 0 ? options.ttlSeconds : DEFAULT_TTL_SECONDS;
+  }
+
+  /**
+   * Issues a token for a player.
+   * @param gameId The ID of the player's game.
+   * @param playerId The ID of the player.
+   * @returns the token and its expiry.
+   */
+  public issue(gameId: string, playerId: string): IssuedSessionToken {
+    const claims: SessionClaims = {
+      game_id: gameId,
+      player_id: playerId,
+      expires_at: Math.floor(clock.now() / 1000) + this.TTL_SECONDS,
+      token_id: randomBytes(16).toString("base64url"),
+    };
+    const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+    return { token: `${payload}.${this.sign(payload)}`, expires_at: claims.expires_at };
+  }
+
+  /**
+   * Checks the signature, expiry and revocation of a token.
+   * @param token The token.
+   * @returns the claims of the token or `null` if the token is invalid, expired or revoked.
+   */
+  public verify(token: string): SessionClaims | null {
+    const [payload, signature, ...rest] = token.split(".");
+    if (!payload || !signature || rest.length > 0 || !secretsEqual(signature, this.sign(payload))) return null;
+    let claims: SessionClaims;
+    try {
+      claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    } catch (_err) {
+      return null;
+    }
+    if (typeof claims?.game_id !== "string" || typeof claims.player_id !== "string" || typeof claims.token_id !== "string" || typeof claims.expires_at !== "number") return null;
+    if (claims.expires_at <= clock.now() / 1000 || claims.token_id in this.revoked) return null;
+    return claims;
+  }
+
+  /**
+   * Issues a new token for the same player and revokes the old one.
+   * @param token The token to replace.
+   * @returns the new token or `null` if the old token is not valid.
+   */
+  public refresh(token: string): IssuedSessionToken | null {
+    const claims = this.verify(token);
+    if (!claims) return null;
+    this.revoke(claims);
+    return this.issue(claims.game_id, claims.player_id);
+  }
+
+  /**
+   * Makes a token invalid before it expires.
+   * @param claims The claims of the token.
+   */
+  public revoke(claims: SessionClaims) {
+    const now = clock.now() / 1000;
+    for (const [tokenId, expiresAt] of Object.entries(this.revoked)) {
+      if (expiresAt <= now) delete this.revoked[tokenId];
+    }
+    this.revoked[claims.token_id] = claims.expires_at;
+  }
+
+  /**
+   * Finds the session token of a request in the `Authorization: Bearer <token>` header
+   * or in a `Sec-WebSocket-Protocol` entry that starts with `SESSION_TOKEN_PROTOCOL_PREFIX`.
+   * @param headers The headers of the request.
+   * @returns the token or `null` if the request has none.
+   */
+  public static fromHeaders(headers: IncomingHttpHeaders): string | null {
+    const bearer = /^Bearer (?<token>\S+)$/.exec(headers.authorization || "")?.groups?.token;
+    if (bearer) return bearer;
+    const protocol = (headers["sec-websocket-protocol"] || "").split(",")
+      .map((protocol) => protocol.trim())
+      .find((protocol) => protocol.startsWith(SESSION_TOKEN_PROTOCOL_PREFIX));
+    return protocol ? protocol.slice(SESSION_TOKEN_PROTOCOL_PREFIX.length) : null;
+  }
+
+  private sign(payload: string): string {
+    return createHmac("sha256", this.key).update(payload).digest("base64url");
+  }
+}
@@ -1,5 +1,34 @@
-import type { WebSocket } from "ws";
+import type { WebSocket, MessageEvent } from "ws";
 import { v4 } from "uuid";
+import type { ServerMetrics } from "./metrics.js";
+import { jsonCodec, type Codec } from "./codecs.js";
+import { clock, type Timer } from "./clock.js";
+
+/** What happens when a peer does not read its messages fast enough. */
+export type SlowConsumerPolicy = "drop_oldest" | "coalesce" | "disconnect";
+
+/** Options for sending queued messages to the websocket peer. */
+export interface OutboundOptions {
+  /** Sends all messages queued during the same microtask, e.g. during one game tick, as a single array. The default is `false`. */
+  batching?: boolean;
+  /** The number of bytes buffered by the websocket above which the peer is considered a slow consumer if a `slowConsumerPolicy` is set. The default is 8 MiB. */
+  maxBufferedBytes?: number;
+  /**
+   * What happens to a slow consumer. By default there is no policy and messages are always sent, however much is buffered.
+   *
+   * - `drop_oldest` holds back new messages until the buffer drains and drops the oldest ones if more than `maxQueuedMessages` pile up.
+   * - `coalesce` does the same, but first only keeps the latest held back message of each event name.
+   * - `disconnect` terminates the connection. Game sockets can resume with `last_seq` after reconnecting.
+   */
+  slowConsumerPolicy?: SlowConsumerPolicy;
+  /** The number of messages held back for a slow consumer by the `drop_oldest` and `coalesce` policies. The default is 256. */
+  maxQueuedMessages?: number;
+}
+
+const DEFAULT_MAX_BUFFERED_BYTES = 8 * 1024 * 1024;
+const DEFAULT_MAX_QUEUED_MESSAGES = 256;
+/** How long to wait before checking again whether a slow consumer's buffer has drained. */
+const SLOW_CONSUMER_RETRY_MS = 50;
 
 /** An extendable base class for creating players. */
 export abstract class Socket {
@@ -9,22 +38,152 @@ export abstract class Socket {
   public readonly id: string = v4();
   /** The time between pings in seconds. */
   protected readonly HEARTBEAT_INTERVAL_SECONDS: number;
+  /** The codec that was negotiated for the connection. */
+  protected readonly codec: Codec;
+  /** The registry that the socket's metrics are counted in or `null` if they are not counted. */
+  protected readonly metrics: ServerMetrics | null;
   /** Whether the client has responded with a `pong` since the last `ping`. */
   private connectionAlive: boolean = true;
   /** The timer responsible for the websocket heartbeat. */
-  private heartbeatInterval?: NodeJS.Timer;
+  private heartbeatInterval?: Timer;
+  /** How queued messages are sent. The slow consumer policy is `null` if slow consumers are not detected. */
+  private readonly outbound: { batching: boolean, maxBufferedBytes: number, slowConsumerPolicy: SlowConsumerPolicy | null, maxQueuedMessages: number; };
+  /** The messages waiting to be sent by `queueMessage`, oldest first. */
+  private queue: unknown[] = [];
+  /** Whether a flush of the queue has been scheduled for the end of the current microtask. */
+  private flushScheduled = false;
+  /** The timer that retries sending to a slow consumer. */
+  private retryTimeout?: Timer;
+  /** Whether the peer has been a slow consumer since the queue was last sent. */
+  private slow = false;
 
   /**
    * Creates a new socket.
    * @param socket The `WebSocket` instance to be associated with this socket.
    * @param heartbeatIntervalSeconds The time between pings in seconds.
+   * @param codec The codec that was negotiated for the connection. The default is JSON.
+   * @param outbound Options for batching and slow consumers that apply to `queueMessage`.
+   * @param metrics The registry that the socket's metrics are counted in or `null` if they are not counted.
    */
-  public constructor(socket: WebSocket, heartbeatIntervalSeconds: number) {
+  public constructor(socket: WebSocket, heartbeatIntervalSeconds: number, codec: Codec = jsonCodec, outbound: OutboundOptions = {}, metrics: ServerMetrics | null = null) {
     this.socket = socket;
     this.HEARTBEAT_INTERVAL_SECONDS = heartbeatIntervalSeconds;
+    this.codec = codec;
+    this.metrics = metrics;
+    this.outbound = {
+      batching: outbound.batching || false,
+      maxBufferedBytes: outbound.maxBufferedBytes || DEFAULT_MAX_BUFFERED_BYTES,
+      slowConsumerPolicy: outbound.slowConsumerPolicy || null,
+      maxQueuedMessages: outbound.maxQueuedMessages || DEFAULT_MAX_QUEUED_MESSAGES,
+    };
     this.startHeartbeat();
   }
 
+  /**
+   * Sends a message to the websocket peer, respecting the batching and slow consumer options.
+   * @param message The message to send.
+   */
+  protected queueMessage(message: unknown) {
+    this.queue.push(message);
+    if (this.retryTimeout) {
+      this.trimQueue();
+    } else if (!this.outbound.batching) {
+      this.flush();
+    } else if (!this.flushScheduled) {
+      this.flushScheduled = true;
+      queueMicrotask(() => this.flush());
+    }
+  }
+
+  /** Sends all queued messages unless the peer is a slow consumer. */
+  private flush() {
+    this.flushScheduled = false;
+    this.retryTimeout = undefined;
+    if (this.queue.length === 0) return;
+    if (this.socket.readyState !== this.socket.OPEN) {
+      this.queue = [];
+      return;
+    }
+    if (this.outbound.slowConsumerPolicy && this.socket.bufferedAmount > this.outbound.maxBufferedBytes) {
+      this.handleSlowConsumer(this.outbound.slowConsumerPolicy);
+      return;
+    }
+    const messages = this.queue;
+    this.queue = [];
+    this.slow = false;
+    try {
+      if (this.outbound.batching) this.sendMessage(messages);
+      else for (const message of messages) this.sendMessage(message);
+    } catch (err) {
+      console.error(err);
+    }
+  }
+
+  /**
+   * Applies the slow consumer policy and schedules another attempt to send the queue.
+   * @param policy The slow consumer policy.
+   */
+  private handleSlowConsumer(policy: SlowConsumerPolicy) {
+    if (!this.slow) {
+      this.slow = true;
+      this.metrics?.slowConsumers.inc(1, { policy });
+      this.onSlowConsumer(policy, this.socket.bufferedAmount);
+    }
+    if (policy === "disconnect") {
+      this.metrics?.messagesDropped.inc(this.queue.length);
+      this.queue = [];
+      this.socket.terminate();
+      return;
+    }
+    this.trimQueue();
+    this.retryTimeout = clock.setTimeout(() => this.flush(), SLOW_CONSUMER_RETRY_MS);
+  }
+
+  /** Shrinks the messages held back for a slow consumer according to the policy. */
+  private trimQueue() {
+    const length = this.queue.length;
+    if (this.outbound.slowConsumerPolicy === "coalesce") {
+      const names = new Set<string>();
+      this.queue = this.queue.reverse().filter((message) => {
+        const name = (message as { name?: unknown; } | null)?.name;
+        if (typeof name !== "string") return true;
+        if (names.has(name)) return false;
+        names.add(name);
+        return true;
+      }).reverse();
+    }
+    if (this.queue.length > this.outbound.maxQueuedMessages) this.queue.splice(0, this.queue.length - this.outbound.maxQueuedMessages);
+    if (this.queue.length < length) this.metrics?.messagesDropped.inc(length - this.queue.length);
+  }
+
+  /**
+   * Runs when the peer becomes a slow consumer, before the policy is applied.
+   * @param policy The slow consumer policy.
+   * @param bufferedBytes The number of bytes buffered by the websocket.
+   */
+  protected onSlowConsumer(policy: SlowConsumerPolicy, bufferedBytes: number): void { }
+
+  /**
+   * Encodes a message with the socket's codec and sends it to the websocket peer.
+   * @param message The message to send.
+   * @throws if the message cannot be encoded.
+   */
+  protected sendMessage(message: unknown) {
+    this.socket.send(this.codec.encode(message));
+  }
+
+  /**
+   * Decodes a message received from the websocket peer with the socket's codec.
+   * @param data The payload of the received frame.
+   * @returns the message.
+   * @throws if the data is invalid.
+   */
+  protected decodeMessage(data: MessageEvent["data"]): unknown {
+    if (typeof data === "string") return this.codec.decode(Buffer.from(data));
+    if (Array.isArray(data)) return this.codec.decode(Buffer.concat(data));
+    return this.codec.decode(Buffer.isBuffer(data) ? data : Buffer.from(data));
+  }
+
   /**
    * Pings the Client every `HEARTBEAT_INTERVAL` seconds and terminates
    * the websocket connection if the client does not respond.
@@ -33,10 +192,12 @@ export abstract class Socket {
     this.socket.on('pong', () => this.connectionAlive = true);
     this.socket.on('close', () => {
       this.onDisconnect();
-      if (this.heartbeatInterval) clearInterval(this.heartbeatInterval);
+      if (this.heartbeatInterval) clock.clearTimer(this.heartbeatInterval);
+      if (this.retryTimeout) clock.clearTimer(this.retryTimeout);
     });
-    this.heartbeatInterval = setInterval(() => {
+    this.heartbeatInterval = clock.setInterval(() => {
       if (this.connectionAlive === false) {
+        this.metrics?.heartbeatTerminations.inc();
         this.socket.terminate();
         this.onDisconnect();
       }
@@ -1,14 +1,16 @@
 import type { WebSocket } from "ws";
 import type { Game } from "./game.js";
-import { Socket } from "./socket.js";
+import { Socket, type OutboundOptions, type SlowConsumerPolicy } from "./socket.js";
 import { AnyEvent } from "./game-socket.js";
+import type { ServerMetrics } from "./metrics.js";
+import type { Codec } from "./codecs.js";
 
 export class SpectatorSocket<Config extends object = object> extends Socket {
   /** A reference to the game that the socket belongs to. */
   protected game: Game<Config>;
 
-  public constructor(game: Game<Config>, socket: WebSocket, heartbeatIntervalSeconds: number) {
-    super(socket, heartbeatIntervalSeconds);
+  public constructor(game: Game<Config>, socket: WebSocket, heartbeatIntervalSeconds: number, codec?: Codec, outbound?: OutboundOptions, metrics: ServerMetrics | null = null) {
+    super(socket, heartbeatIntervalSeconds, codec, outbound, metrics);
     this.game = game;
   }
 
@@ -18,12 +20,17 @@ export class SpectatorSocket<Config extends object = object> extends Socket {
    */
   public send<E extends AnyEvent = AnyEvent>(message: E) {
     try {
-      this.socket.send(JSON.stringify(message));
+      this.queueMessage(message);
+      this.metrics?.eventsSent.inc();
     } catch (err) {
       console.error(err);
     }
   }
 
+  protected onSlowConsumer(policy: SlowConsumerPolicy, bufferedBytes: number): void {
+    this.game.logger.warn("A spectator socket is not reading its events fast enough.", { socket_id: this.id, policy, buffered_bytes: bufferedBytes });
+  }
+
   protected onDisconnect(): void {
     this.game.removeSpectator(this);
   }
@@ -0,0 +1,353 @@
+import { EventEmitter } from "events";
+import type { WebSocket } from "ws";
+import { useClock, type Clock, type Timer } from "./clock.js";
+import { GameSocket, type AnyCommand, type AnyEvent } from "./game-socket.js";
+import { loadCGE, type CGE } from "./cge.js";
+import type { Game } from "./game.js";
+import type { Player, SequencedEvent } from "./player.js";
+import type { CreateGameFn } from "./server.js";
+import { ServerMetrics } from "./metrics.js";
+
+const DEFAULT_HEARTBEAT_INTERVAL_SECONDS = 10 * 60;
+
+type FakeTimer = {
+  /** The time at which the timer fires next. */
+  due: number,
+  /** The time between calls in milliseconds or `null` if the timer only fires once. */
+  interval: number | null,
+  callback: () => void,
+  /** Orders timers that are due at the same time by creation. */
+  order: number;
+};
+
+/** A clock whose time only passes when `advance` is called. */
+export class FakeClock implements Clock {
+  /** The current unix timestamp in milliseconds. */
+  private time: number;
+  private timers: FakeTimer[] = [];
+  private created = 0;
+
+  /**
+   * Creates a new fake clock.
+   * @param startTime The unix timestamp in milliseconds that the clock starts at. The default is `0`.
+   */
+  public constructor(startTime = 0) {
+    this.time = startTime;
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public setTimeout(callback: () => void, ms: number): Timer {
+    return this.addTimer(callback, ms, null);
+  }
+
+  public setInterval(callback: () => void, ms: number): Timer {
+    return this.addTimer(callback, ms, Math.max(ms, 1));
+  }
+
+  public clearTimer(timer: Timer) {
+    this.timers = this.timers.filter((pending) => pending !== timer);
+  }
+
+  /**
+   * Lets time pass and runs every timer that becomes due, in the order in which they are due.
+   * @param ms The time to pass in milliseconds.
+   */
+  public advance(ms: number) {
+    const target = this.time + Math.max(ms, 0);
+    let next = this.nextDue(target);
+    while (next) {
+      this.time = next.due;
+      if (next.interval === null) this.clearTimer(next);
+      else next.due += next.interval;
+      next.callback();
+      next = this.nextDue(target);
+    }
+    this.time = target;
+  }
+
+  /**
+   * Gets the number of timers that have not fired or have not been cleared yet.
+   * @returns the number of pending timers.
+   */
+  public getPendingTimerCount(): number {
+    return this.timers.length;
+  }
+
+  private addTimer(callback: () => void, ms: number, interval: number | null): FakeTimer {
+    const timer: FakeTimer = { due: this.time + Math.max(ms || 0, 0), interval, callback, order: this.created++ };
+    this.timers.push(timer);
+    return timer;
+  }
+
+  /**
+   * Finds the timer that fires next.
+   * @param until The time up to which timers are considered.
+   * @returns the timer or `undefined` if no timer is due until then.
+   */
+  private nextDue(until: number): FakeTimer | undefined {
+    let next: FakeTimer | undefined;
+    for (const timer of this.timers) {
+      if (timer.due > until) continue;
+      if (!next || timer.due < next.due || (timer.due === next.due && timer.order < next.order)) next = timer;
+    }
+    return next;
+  }
+}
+
+/** An in-memory stand-in for the parts of a `WebSocket` that sockets use. */
+class VirtualWebSocket extends EventEmitter {
+  public readonly OPEN = 1;
+  public readonly CLOSED = 3;
+  public readyState = this.OPEN;
+  public readonly bufferedAmount = 0;
+  public readonly protocol = "";
+  /** Is called with every message sent to the client. */
+  private readonly deliver: (data: string | Uint8Array) => void;
+  /** Whether the client answers pings. */
+  private readonly alive: () => boolean;
+
+  public constructor(deliver: (data: string | Uint8Array) => void, alive: () => boolean) {
+    super();
+    this.deliver = deliver;
+    this.alive = alive;
+  }
+
+  public addEventListener(type: string, listener: (event: { data: unknown; }) => void) {
+    this.on(type, (data: unknown) => listener({ data }));
+  }
+
+  /**
+   * Passes a message from the client to the server.
+   * @param data The encoded message.
+   */
+  public receive(data: string) {
+    if (this.readyState === this.OPEN) this.emit("message", data);
+  }
+
+  public send(data: string | Uint8Array) {
+    if (this.readyState === this.OPEN) this.deliver(data);
+  }
+
+  public ping() {
+    if (this.readyState === this.OPEN && this.alive()) this.emit("pong");
+  }
+
+  public close() {
+    this.terminate();
+  }
+
+  public terminate() {
+    if (this.readyState === this.CLOSED) return;
+    this.readyState = this.CLOSED;
+    this.emit("close");
+  }
+}
+
+/** A client that controls a player through an in-memory game socket. */
+export class TestClient<Config extends object = object> {
+  /** The player that the client controls. */
+  public readonly player: Player<Config>;
+  /** All events the client has received, oldest first. */
+  public readonly events: SequencedEvent[] = [];
+  /** Whether the client answers pings. Set this to `false` to simulate a connection that silently dropped. */
+  public respondsToPings = true;
+  private readonly heartbeatIntervalSeconds: number;
+  private readonly cge: CGE | null;
+  private readonly metrics: ServerMetrics | null;
+  private socket: VirtualWebSocket | null = null;
+
+  /**
+   * Creates a new test client. The client does not connect until `connect` is called.
+   * @param player The player that the client controls.
+   * @param heartbeatIntervalSeconds The time between pings in seconds.
+   * @param cge The CGE file that commands are validated against or `null`.
+   * @param metrics The registry that the metrics of the client's sockets are counted in or `null`.
+   */
+  public constructor(player: Player<Config>, heartbeatIntervalSeconds: number, cge: CGE | null, metrics: ServerMetrics | null = null) {
+    this.player = player;
+    this.heartbeatIntervalSeconds = heartbeatIntervalSeconds;
+    this.cge = cge;
+    this.metrics = metrics;
+  }
+
+  /**
+   * Connects a new game socket to the player, closing the previous one.
+   * @param lastSeq The sequence number of the last received event to resume from or `null` to only receive new events.
+   */
+  public connect(lastSeq: number | null = null) {
+    this.disconnect();
+    const socket = new VirtualWebSocket((data) => this.receive(data), () => this.respondsToPings);
+    this.socket = socket;
+    this.player.addGameSocket(new GameSocket(this.player, socket as unknown as WebSocket, this.heartbeatIntervalSeconds, this.cge, null, undefined, undefined, this.metrics), lastSeq);
+  }
+
+  /** Closes the client's game socket. */
+  public disconnect() {
+    if (this.socket) this.socket.close();
+    this.socket = null;
+  }
+
+  /**
+   * Checks if the client's game socket is open. Sockets are closed when the heartbeat fails.
+   * @returns whether the client is connected.
+   */
+  public connected(): boolean {
+    return this.socket !== null && this.socket.readyState === this.socket.OPEN;
+  }
+
+  /**
+   * Sends a command to the player.
+   * @param command The command.
+   * @throws if the client is not connected.
+   */
+  public send<C extends AnyCommand = AnyCommand>(command: C) {
+    if (!this.socket || !this.connected()) throw "The test client is not connected.";
+    this.socket.receive(JSON.stringify(command));
+  }
+
+  /**
+   * Gets the received events with a specific name.
+   * @param name The name of the events.
+   * @returns the events, oldest first.
+   */
+  public eventsNamed<E extends AnyEvent = AnyEvent>(name: E["name"]): SequencedEvent<E>[] {
+    return this.events.filter((event) => event.name === name) as SequencedEvent<E>[];
+  }
+
+  /**
+   * Gets the most recently received event.
+   * @param name Only considers events with this name if specified.
+   * @returns the event or `undefined` if no such event was received.
+   */
+  public lastEvent<E extends AnyEvent = AnyEvent>(name?: E["name"]): SequencedEvent<E> | undefined {
+    const events = name === undefined ? this.events : this.eventsNamed(name);
+    return events[events.length - 1] as SequencedEvent<E> | undefined;
+  }
+
+  /** Forgets all received events. */
+  public clearEvents() {
+    this.events.length = 0;
+  }
+
+  private receive(data: string | Uint8Array) {
+    const message = JSON.parse(typeof data === "string" ? data : Buffer.from(data).toString("utf-8"));
+    if (Array.isArray(message)) this.events.push(...message);
+    else this.events.push(message);
+  }
+}
+
+/** Options for a `TestHarness`. */
+export interface TestHarnessOptions<Config extends object = object> {
+  /** Whether the game is protected by a join secret. The default is `false`. */
+  protected?: boolean;
+  /** Custom config options passed to `createGame`. */
+  config?: Config;
+  /** Validates the commands of test clients and bots against this CGE file. Commands are not validated by default. */
+  cgePath?: string;
+  /** The time between pings in seconds. The default is 10 minutes, like the `GameServer`. */
+  heartbeatIntervalSeconds?: number;
+  /** The unix timestamp in milliseconds that the fake clock starts at. The default is `0`. */
+  startTime?: number;
+}
+
+/**
+ * Runs a game in-process without a `GameServer` or network, for testing game logic.
+ *
+ * Players join through `TestClient`s and all timers, heartbeats and inactivity checks use a `FakeClock`:
+ *
+ * ```ts
+ * const harness = new TestHarness((_protected, config) => new MyGame(_protected, config));
+ * const alice = harness.join("alice");
+ * alice.send({ name: "move", data: { x: 1 } });
+ * harness.clock.advance(1000);
+ * assert(alice.lastEvent("moved"));
+ * harness.close();
+ * ```
+ *
+ * The fake clock replaces the clock of the whole process until `close` is called,
+ * so only one harness should be used at a time.
+ */
+export class TestHarness<Config extends object = object> {
+  /** The clock that controls all timers of the game. */
+  public readonly clock: FakeClock;
+  /** The game under test. */
+  public readonly game: Game<Config>;
+  /** The metrics of the game, its players and the test clients' sockets. */
+  public readonly metrics = new ServerMetrics();
+  private readonly heartbeatIntervalSeconds: number;
+  private readonly cge: CGE | null;
+  private terminated = false;
+
+  /**
+   * Creates the game with a fake clock.
+   * @param createGame A function that is called to create the game.
+   * @param options Options for the game and the clock.
+   */
+  public constructor(createGame: CreateGameFn<Config>, options: TestHarnessOptions<Config> = {}) {
+    this.clock = new FakeClock(options.startTime);
+    this.heartbeatIntervalSeconds = options.heartbeatIntervalSeconds || DEFAULT_HEARTBEAT_INTERVAL_SECONDS;
+    this.cge = options.cgePath ? loadCGE(options.cgePath) : null;
+    useClock(this.clock);
+    try {
+      this.game = createGame(options.protected || false, options.config);
+      this.game.exposeMetrics(this.metrics);
+      if (this.cge) this.game.validateBotCommandsAgainst(this.cge);
+    } catch (err) {
+      useClock(null);
+      throw err;
+    }
+  }
+
+  /**
+   * Adds a player to the game and connects a test client to it.
+   * @param username The username of the new player.
+   * @returns the connected client.
+   * @throws if the game is full.
+   */
+  public join(username: string): TestClient<Config> {
+    const client = new TestClient(this.game.addPlayer(username), this.heartbeatIntervalSeconds, this.cge, this.metrics);
+    client.connect();
+    return client;
+  }
+
+  /**
+   * Connects another test client to an existing player, e.g. a bot or a player that was added by the game.
+   * @param player The player.
+   * @returns the connected client.
+   */
+  public connect(player: Player<Config>): TestClient<Config> {
+    const client = new TestClient(player, this.heartbeatIntervalSeconds, this.cge, this.metrics);
+    client.connect();
+    return client;
+  }
+
+  /**
+   * Runs the inactivity check of the `GameServer`, which terminates players that have been
+   * disconnected for too long and the game if it has no active players left.
+   * @returns whether the game was terminated.
+   */
+  public reapInactive(): boolean {
+    if (this.terminated || this.game.active()) return false;
+    this.game.terminate();
+    this.terminated = true;
+    return true;
+  }
+
+  /**
+   * Waits until all pending microtasks have run, e.g. the events of bots and batched messages.
+   * @returns a promise that resolves once the microtasks have run.
+   */
+  public settle(): Promise<void> {
+    return new Promise((resolve) => setImmediate(resolve));
+  }
+
+  /** Terminates the game and restores the system clock. */
+  public close() {
+    if (!this.terminated) this.game.terminate("the test ending");
+    this.terminated = true;
+    useClock(null);
+  }
+}
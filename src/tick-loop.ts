@@ -0,0 +1,91 @@
+import { clock, type Timer } from "./clock.js";
+
+/** The maximum number of ticks that are run back-to-back to catch up after the loop fell behind. */
+const MAX_CATCH_UP_TICKS = 5;
+
+/** A fixed-timestep loop that calls a function a constant number of times per second. */
+export class TickLoop {
+  /** The number of ticks per second. */
+  public readonly TICK_RATE: number;
+  /** The duration of a single tick in milliseconds. */
+  private readonly step: number;
+  /** Runs a single tick. */
+  private readonly onTick: (delta: number) => void;
+  /** Is notified about ticks that exceeded their time budget and ticks that had to be skipped. */
+  private readonly onLag: (message: string, data: object) => void;
+  /** The timer for the next run. */
+  private timeout?: Timer;
+  /** The unix timestamp in milliseconds of the last run. */
+  private lastRun = 0;
+  /** The time in milliseconds that has passed but has not been simulated yet. */
+  private accumulator = 0;
+
+  /**
+   * Creates a new tick loop. The loop does not start until `start` is called.
+   * @param tickRate The number of ticks per second.
+   * @param onTick Runs a single tick. `delta` is the fixed duration of a tick in seconds.
+   * @param onLag Is notified about ticks that exceeded their time budget and ticks that had to be skipped.
+   */
+  public constructor(tickRate: number, onTick: (delta: number) => void, onLag: (message: string, data: object) => void) {
+    this.TICK_RATE = tickRate;
+    this.step = 1000 / tickRate;
+    this.onTick = onTick;
+    this.onLag = onLag;
+  }
+
+  /** Starts or resumes the loop. Time that passed while the loop was stopped is not simulated. */
+  public start() {
+    if (this.running()) return;
+    this.lastRun = clock.now();
+    this.accumulator = 0;
+    this.schedule();
+  }
+
+  /** Stops the loop. */
+  public stop() {
+    if (this.timeout) clock.clearTimer(this.timeout);
+    this.timeout = undefined;
+  }
+
+  public running(): boolean {
+    return this.timeout !== undefined;
+  }
+
+  private schedule() {
+    this.timeout = clock.setTimeout(() => this.run(), Math.max(this.step - this.accumulator, 0));
+  }
+
+  /** Runs all ticks that are due and schedules the next run. */
+  private run() {
+    const current = this.timeout;
+    const now = clock.now();
+    this.accumulator += now - this.lastRun;
+    this.lastRun = now;
+
+    let ticks = 0;
+    while (this.accumulator >= this.step && ticks < MAX_CATCH_UP_TICKS) {
+      const start = clock.now();
+      try {
+        this.onTick(this.step / 1000);
+      } catch (err) {
+        console.error(err);
+      }
+      const duration = clock.now() - start;
+      if (duration > this.step) {
+        this.onLag(`Tick took ${duration}ms, which exceeds the tick budget of ${this.step.toFixed(1)}ms.`, { tick_duration_ms: duration, tick_budget_ms: this.step });
+      }
+      // `onTick` may have stopped the loop or restarted it, which schedules a new run
+      if (this.timeout !== current) return;
+      this.accumulator -= this.step;
+      ticks++;
+    }
+
+    if (this.accumulator >= this.step) {
+      const skipped = Math.floor(this.accumulator / this.step);
+      this.onLag(`Skipped ${skipped} ticks because the game fell behind.`, { skipped_ticks: skipped });
+      this.accumulator -= skipped * this.step;
+    }
+
+    this.schedule();
+  }
+}
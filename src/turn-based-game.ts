@@ -0,0 +1,266 @@
+import { Game } from "./game.js";
+import type { Player } from "./player.js";
+import type { AnyEvent, AnyCommand } from "./game-socket.js";
+import { clock, type Timer } from "./clock.js";
+
+/** What happens to a player that does not end their turn in time. */
+export type TurnTimeoutPolicy = "skip" | "forfeit";
+
+/** Why a turn ended. */
+export type TurnEndReason = "completed" | "timeout" | "forfeit" | "left";
+
+/** Broadcast whenever a player's turn starts. */
+export type TurnStartedEvent = {
+  name: "turn_started",
+  data: {
+    player_id: string,
+    /** The number of the turn, starting at 1. */
+    turn: number,
+    /** The unix timestamp in milliseconds at which the turn times out or `0` if there is no timeout. */
+    deadline: number;
+  };
+};
+
+/** Broadcast whenever a player's turn ends. */
+export type TurnEndedEvent = {
+  name: "turn_ended",
+  data: {
+    player_id: string,
+    turn: number,
+    reason: TurnEndReason;
+  };
+};
+
+/** The standard events broadcast by `TurnBasedGame`. */
+export type TurnEvent = TurnStartedEvent | TurnEndedEvent;
+
+/**
+ * An extendable base class for board-style games in which players take turns.
+ *
+ * Players take turns in the order they joined the game. While turns are running,
+ * commands from players whose turn it is not are rejected before they reach
+ * `Player.handleCommand` (see `requiresTurn`). The standard `turn_started` and
+ * `turn_ended` events are broadcast to everyone and must be declared in the CGE file:
+ *
+ * ```
+ * event turn_started {
+ *   player_id: string,
+ *   turn: int,
+ *   // The unix timestamp in milliseconds at which the turn times out or 0 if there is no timeout.
+ *   deadline: int64
+ * }
+ *
+ * event turn_ended {
+ *   player_id: string,
+ *   turn: int,
+ *   // One of "completed", "timeout", "forfeit" or "left".
+ *   reason: string
+ * }
+ * ```
+ */
+export abstract class TurnBasedGame<
+  Config extends object = object,
+  Events extends AnyEvent = AnyEvent,
+  Commands extends AnyCommand = AnyCommand
+> extends Game<Config, Events, Commands> {
+  /** The time in seconds a player has to end their turn. `0` means there is no limit. */
+  protected readonly TURN_TIMEOUT_SECONDS: number;
+  /** What happens to a player that does not end their turn in time. */
+  protected readonly TURN_TIMEOUT_POLICY: TurnTimeoutPolicy;
+  /** The IDs of all players in the order they take turns. */
+  private readonly turnOrder: string[] = [];
+  /** The IDs of the players that forfeited and no longer take turns. */
+  private readonly forfeited = new Set<string>();
+  /** The ID of the player whose turn it is or `null` if turns are not running. */
+  private currentPlayerId: string | null = null;
+  /** The number of the current turn. */
+  private turn = 0;
+  /** The timer that ends the current turn when it times out. */
+  private turnTimeout?: Timer;
+
+  /**
+   * Creates a new turn-based game.
+   * @param protected Whether the game should be protected by a join secret.
+   * @param config Custom config options provided at creation time.
+   * @param maxPlayerCount Maximum amount of players allowed in one game at a time. The default is 6. The minimum is 1.
+   * @param maxInactiveTimeMinutes Maximum inactive time of a player in minutes. The default is 10 minutes.
+   * @param turnTimeoutSeconds The time in seconds a player has to end their turn. The default is `0`, which means there is no limit.
+   * @param turnTimeoutPolicy Whether a player that times out is skipped or forfeits. The default is `"skip"`.
+   */
+  constructor(
+    _protected: boolean,
+    config?: object,
+    maxPlayerCount?: number,
+    maxInactiveTimeMinutes?: number,
+    turnTimeoutSeconds: number = 0,
+    turnTimeoutPolicy: TurnTimeoutPolicy = "skip"
+  ) {
+    super(_protected, config, maxPlayerCount, maxInactiveTimeMinutes);
+    this.TURN_TIMEOUT_SECONDS = Math.max(turnTimeoutSeconds || 0, 0);
+    this.TURN_TIMEOUT_POLICY = turnTimeoutPolicy;
+  }
+
+  /**
+   * Starts taking turns.
+   * @param firstPlayerId The ID of the player that takes the first turn. The default is the player that joined first.
+   * @throws if turns are already running or there are no players that could take a turn.
+   */
+  protected startTurns(firstPlayerId?: string) {
+    if (this.currentPlayerId !== null) throw "Turns have already been started.";
+    const first = firstPlayerId ?? this.eligiblePlayerIds()[0];
+    if (!first || !this.turnOrder.includes(first) || this.forfeited.has(first)) throw "There is no player that could take the first turn.";
+    this.logger.info("Started taking turns.");
+    this.startTurn(first);
+  }
+
+  /** Stops taking turns without ending the current turn. */
+  protected stopTurns() {
+    if (this.turnTimeout) clock.clearTimer(this.turnTimeout);
+    if (this.currentPlayerId === null) return;
+    this.currentPlayerId = null;
+    this.logger.info("Stopped taking turns.");
+  }
+
+  /**
+   * Ends the current turn and starts the turn of the next player.
+   * Call this when the current player has completed their move.
+   */
+  protected endTurn() {
+    this.finishTurn("completed");
+  }
+
+  /**
+   * Gets the player whose turn it is.
+   * @returns the player or `undefined` if turns are not running.
+   */
+  public currentPlayer(): Player<Config, Events, Commands> | undefined {
+    return this.currentPlayerId !== null ? this.getPlayer(this.currentPlayerId) : undefined;
+  }
+
+  /**
+   * Decides whether a command may only be sent by the player whose turn it is.
+   * The default implementation requires a turn for all commands.
+   * @param command The command.
+   * @returns whether the command requires the sender to have the turn.
+   */
+  protected requiresTurn(command: Commands): boolean {
+    return true;
+  }
+
+  /**
+   * Runs whenever a player's turn starts.
+   * @param player The player whose turn started.
+   */
+  protected turnStarted(player: Player<Config, Events, Commands>): void { }
+
+  /**
+   * Runs whenever a player's turn ends.
+   * @param player The player whose turn ended.
+   * @param reason Why the turn ended.
+   */
+  protected turnEnded(player: Player<Config, Events, Commands>, reason: TurnEndReason): void { }
+
+  /**
+   * Runs when a player forfeits because their turn timed out.
+   * The player stays in the game but does not take any more turns.
+   * @param player The player that forfeited.
+   */
+  protected playerForfeited(player: Player<Config, Events, Commands>): void { }
+
+  public commandAllowed(player: Player<Config, Events, Commands>, command: Commands): boolean {
+    if (this.currentPlayerId === null || player.id === this.currentPlayerId || !this.requiresTurn(command)) {
+      return super.commandAllowed(player, command);
+    }
+    player.logger.error(`Command "${command.name}" was rejected because it is not your turn.`, { command, current_player_id: this.currentPlayerId });
+    return false;
+  }
+
+  protected registerPlayer(player: Player<Config, Events, Commands>) {
+    super.registerPlayer(player);
+    this.turnOrder.push(player.id);
+  }
+
+  protected unregisterPlayer(player: Player<Config, Events, Commands>) {
+    super.unregisterPlayer(player);
+    const index = this.turnOrder.indexOf(player.id);
+    if (index !== -1) this.turnOrder.splice(index, 1);
+    this.forfeited.delete(player.id);
+  }
+
+  public removePlayer(player: Player<Config, Events, Commands>) {
+    const hadTurn = this.currentPlayerId === player.id;
+    const next = hadTurn ? this.nextPlayerId() : null;
+    super.removePlayer(player);
+    if (hadTurn) this.finishTurn("left", player, next);
+  }
+
+  public terminate(reason?: string) {
+    this.stopTurns();
+    super.terminate(reason);
+  }
+
+  /**
+   * Ends the current turn and starts the next one.
+   * @param reason Why the turn ended.
+   * @param player The player whose turn ended, if they are no longer in the game.
+   * @param next The ID of the player to take the next turn, if it has already been determined.
+   */
+  private finishTurn(reason: TurnEndReason, player = this.currentPlayer(), next = this.nextPlayerId()) {
+    if (this.currentPlayerId === null || !player) return;
+    if (this.turnTimeout) clock.clearTimer(this.turnTimeout);
+    if (reason === "forfeit") this.forfeited.add(player.id);
+    this.broadcastTurnEvent({ name: "turn_ended", data: { player_id: player.id, turn: this.turn, reason } });
+    this.turnEnded(player, reason);
+    if (reason === "forfeit") this.playerForfeited(player);
+    // the hooks might have stopped the turns
+    if (this.currentPlayerId === null) return;
+    if (reason === "forfeit" && next === player.id) next = null;
+    if (next === null || !this.turnOrder.includes(next)) {
+      this.stopTurns();
+      return;
+    }
+    this.startTurn(next);
+  }
+
+  private startTurn(playerId: string) {
+    this.currentPlayerId = playerId;
+    this.turn++;
+    const deadline = this.TURN_TIMEOUT_SECONDS > 0 ? clock.now() + this.TURN_TIMEOUT_SECONDS * 1000 : 0;
+    if (deadline) {
+      this.turnTimeout = clock.setTimeout(() => {
+        this.logger.info(`Turn ${this.turn} timed out.`, { player_id: playerId });
+        this.finishTurn(this.TURN_TIMEOUT_POLICY === "forfeit" ? "forfeit" : "timeout");
+      }, this.TURN_TIMEOUT_SECONDS * 1000);
+    }
+    this.broadcastTurnEvent({ name: "turn_started", data: { player_id: playerId, turn: this.turn, deadline } });
+    const player = this.getPlayer(playerId);
+    if (player) this.turnStarted(player);
+  }
+
+  /**
+   * Broadcasts one of the standard turn events.
+   * @param event The event, which is expected to be declared in the CGE file.
+   */
+  private broadcastTurnEvent(event: TurnEvent) {
+    this.broadcastEvent(event as AnyEvent as Events);
+  }
+
+  /** Gets the IDs of all players that take turns in turn order. */
+  private eligiblePlayerIds(): string[] {
+    return this.turnOrder.filter((id) => !this.forfeited.has(id));
+  }
+
+  /**
+   * Determines the player that takes the turn after the current one.
+   * @returns the ID of the next player or `null` if there is none.
+   */
+  private nextPlayerId(): string | null {
+    if (this.currentPlayerId === null) return null;
+    const index = this.turnOrder.indexOf(this.currentPlayerId);
+    for (let offset = 1; offset <= this.turnOrder.length; offset++) {
+      const id = this.turnOrder[(index + offset) % this.turnOrder.length];
+      if (!this.forfeited.has(id)) return id;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,113 @@
+import { STATUS_CODES, type IncomingHttpHeaders, type IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import type { WebSocket } from "ws";
+import type { Codec } from "./codecs.js";
+
+/** Why an upgrade request was refused. */
+export type UpgradeRejection = {
+  /** The HTTP status code. */
+  status: number,
+  /** A readable explanation that is sent as the response body. */
+  message: string;
+};
+
+/** Takes over a websocket after the upgrade request was accepted. */
+export type UpgradeAcceptor = (ws: WebSocket, codec: Codec) => void;
+
+/**
+ * Validates an upgrade request.
+ * @param params The values of the `:name` segments of the route.
+ * @param query The query parameters of the request.
+ * @param headers The headers of the request.
+ * @param address The IP address of the client, e.g. for rate limiting.
+ * @returns a rejection or the function that takes over the websocket once it is open.
+ */
+export type UpgradeHandler = (params: { [index: string]: string; }, query: URLSearchParams, headers: IncomingHttpHeaders, address: string) => UpgradeRejection | UpgradeAcceptor | Promise<UpgradeRejection | UpgradeAcceptor>;
+
+/** The format of the game and player IDs that `:name` segments match. */
+const ID_PATTERN = /^[A-Fa-f0-9-]+$/;
+
+type Route = {
+  segments: string[],
+  handler: UpgradeHandler;
+};
+
+/**
+ * Routes websocket upgrade requests by their path and validates them before the connection is upgraded,
+ * so that refused requests receive a regular HTTP response with a status code and a readable body.
+ */
+export class UpgradeRouter {
+  private readonly routes: Route[] = [];
+
+  /**
+   * Adds a route. Routes are matched in the order they were added.
+   * @param pattern The path of the route. Segments starting with `:` match any game or player ID, e.g. `/api/games/:gameId/spectate`.
+   * @param handler Validates matching requests.
+   */
+  public route(pattern: string, handler: UpgradeHandler) {
+    this.routes.push({ segments: pattern.split("/"), handler });
+  }
+
+  /**
+   * Finds the route of an upgrade request and validates the request.
+   * @param request The upgrade request.
+   * @returns a rejection or the function that takes over the websocket.
+   */
+  public async resolve(request: IncomingMessage): Promise<UpgradeRejection | UpgradeAcceptor> {
+    const url = request.url;
+    if (!url) return { status: 400, message: "The request has no URL." };
+    const [path, query] = url.split("?", 2);
+    let segments: string[];
+    try {
+      segments = path.split("/").map((segment) => decodeURIComponent(segment));
+    } catch (_err) {
+      return { status: 400, message: "The path of the request is malformed." };
+    }
+    for (const route of this.routes) {
+      const params = UpgradeRouter.match(route.segments, segments);
+      if (params) return route.handler(params, new URLSearchParams(query || ""), request.headers, request.socket.remoteAddress || "");
+    }
+    return { status: 404, message: `There is no websocket route at ${path}.` };
+  }
+
+  /**
+   * Answers an upgrade request with an HTTP error response and closes the connection.
+   * @param socket The socket of the request.
+   * @param rejection The status code and message.
+   */
+  public static reject(socket: Duplex, { status, message }: UpgradeRejection) {
+    if (!socket.writable) {
+      socket.destroy();
+      return;
+    }
+    socket.once("finish", () => socket.destroy());
+    socket.end(
+      `HTTP/1.1 ${status} ${STATUS_CODES[status] || ""}\r\n` +
+      "Connection: close\r\n" +
+      "Content-Type: text/plain; charset=utf-8\r\n" +
+      `Content-Length: ${Buffer.byteLength(message)}\r\n` +
+      "\r\n" +
+      message
+    );
+  }
+
+  /**
+   * Matches the segments of a path against the segments of a route.
+   * @param pattern The segments of the route.
+   * @param segments The decoded segments of the path.
+   * @returns the values of the `:name` segments or `null` if the path does not match.
+   */
+  private static match(pattern: string[], segments: string[]): { [index: string]: string; } | null {
+    if (pattern.length !== segments.length) return null;
+    const params: { [index: string]: string; } = {};
+    for (let i = 0; i < pattern.length; i++) {
+      if (pattern[i].startsWith(":")) {
+        if (!ID_PATTERN.test(segments[i])) return null;
+        params[pattern[i].slice(1)] = segments[i];
+      } else if (pattern[i] !== segments[i]) {
+        return null;
+      }
+    }
+    return params;
+  }
+}
@@ -0,0 +1,145 @@
+import { isMainThread, parentPort } from "worker_threads";
+import { READY_COMMAND, type Game } from "./game.js";
+import { Severity } from "./logger.js";
+import { withReservedId } from "./ids.js";
+import type { CreateGameFn } from "./server.js";
+import type { FromWorker, GameSnapshot, ToWorker } from "./worker-messages.js";
+
+/**
+ * Hosts games in a worker thread started by a `GameServer` with the `workers` option.
+ *
+ * Call this in the worker script with the same function that is passed to the `GameServer`:
+ *
+ * ```ts
+ * import { hostGames } from "@code-game-project/server";
+ * import { MyGame } from "./game.js";
+ *
+ * hostGames((_protected, config) => new MyGame(_protected, config));
+ * ```
+ *
+ * Games and players behave as usual. Their events are sent by the main thread,
+ * which also owns all sockets, secrets and recordings.
+ * @param createGame A function that is called to create a new game.
+ * @throws if this is not a worker thread.
+ */
+export function hostGames<Config extends object = object>(createGame: CreateGameFn<Config>) {
+  const port = parentPort;
+  if (isMainThread || !port) throw "Games can only be hosted in a worker thread started by a GameServer.";
+
+  const games: { [index: string]: Game<Config>; } = {};
+  /** The last snapshot sent for each game. */
+  const sentSnapshots: { [index: string]: string; } = {};
+  const pendingSnapshots = new Set<string>();
+
+  const post = (message: FromWorker) => {
+    port.postMessage(message);
+    scheduleSnapshot(message.game_id);
+  };
+
+  /** Sends the snapshots of all games that might have changed at the end of the current microtask. */
+  const scheduleSnapshot = (gameId: string) => {
+    if (pendingSnapshots.size === 0) queueMicrotask(() => {
+      for (const gameId of pendingSnapshots) {
+        const game = games[gameId];
+        if (!game) continue;
+        const snapshot = snapshotOf(game);
+        const serialized = JSON.stringify(snapshot);
+        if (serialized === sentSnapshots[gameId]) continue;
+        sentSnapshots[gameId] = serialized;
+        port.postMessage({ type: "snapshot", game_id: gameId, snapshot } as FromWorker);
+      }
+      pendingSnapshots.clear();
+    });
+    pendingSnapshots.add(gameId);
+  };
+
+  port.on("message", (message: ToWorker) => {
+    const game = games[message.game_id];
+    switch (message.type) {
+      case "create": {
+        let created: Game<Config>;
+        try {
+          created = withReservedId(message.game_id, () => createGame(message.protected, message.config as Config));
+        } catch (err) {
+          post({ type: "create_failed", game_id: message.game_id, reason: typeof err === "string" ? err : String(err) });
+          return;
+        }
+        games[created.id] = created;
+        // the game is mirrored by the main thread, which sends the events
+        created.forwardEventsTo({
+          send: (playerId, event) => post({ type: "event", game_id: created.id, player_id: playerId, event }),
+          broadcast: (event, omit) => post({ type: "broadcast", game_id: created.id, event, omit }),
+          playerRemoved: (playerId) => post({ type: "player_removed", game_id: created.id, player_id: playerId }),
+        });
+        created.logger.addTransport({
+          minSeverity: Severity.TRACE,
+          write: (record) => {
+            try {
+              post({ type: "log", game_id: created.id, record });
+            } catch (_err) {
+              post({ type: "log", game_id: created.id, record: { ...record, data: undefined } });
+            }
+          }
+        });
+        break;
+      }
+      case "terminate":
+        if (!game) return;
+        game.terminate(message.reason);
+        delete games[message.game_id];
+        delete sentSnapshots[message.game_id];
+        return;
+      case "add_player":
+        if (!game) return;
+        try {
+          withReservedId(message.player_id, () => game.addPlayer(message.username));
+        } catch (err) {
+          post({ type: "player_rejected", game_id: message.game_id, player_id: message.player_id, reason: typeof err === "string" ? err : String(err) });
+        }
+        break;
+      case "remove_player": {
+        const player = game?.getPlayer(message.player_id);
+        if (player) game.removePlayer(player);
+        break;
+      }
+      case "command":
+        game?.getPlayer(message.player_id)?.handleCommandInternalWrapper(message.command);
+        break;
+      case "joining":
+        if (message.allowed) game?.allowJoining();
+        else game?.disallowJoining();
+        break;
+      case "start":
+      case "update_config":
+        if (!game) return;
+        try {
+          if (message.type === "start") game.startByHost();
+          else game.updateConfig(message.changes);
+        } catch (err) {
+          game.logger.error(`The host's request failed: ${err}`);
+        }
+        break;
+    }
+    scheduleSnapshot(message.game_id);
+  });
+}
+
+/**
+ * Captures the state of a game that the main thread needs to answer API requests.
+ * @param game The game.
+ * @returns the snapshot.
+ */
+function snapshotOf<Config extends object>(game: Game<Config>): GameSnapshot {
+  const players = Object.values(game.getPlayers());
+  return {
+    state: game.getState(),
+    joinable: game.joinable(),
+    max_player_count: game.getMaxPlayerCount(),
+    max_inactive_time_minutes: game.getMaxInactiveTimeMinutes(),
+    config: game.config,
+    ready: players.filter((player) => game.isReady(player.id)).map((player) => player.id),
+    teams: game.getTeams(),
+    spectatable: players.filter((player) => game.playerSpectatingAllowed(player)).map((player) => player.id),
+    reserves_ready: game.isReservedCommand(READY_COMMAND),
+  };
+}
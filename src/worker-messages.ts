@@ -0,0 +1,41 @@
+import type { AnyCommand, AnyEvent } from "./game-socket.js";
+import type { GameState } from "./game.js";
+import type { LogRecord } from "./logger.js";
+
+/** The state of a game in a worker thread that the main thread mirrors. */
+export type GameSnapshot = {
+  state: GameState,
+  joinable: boolean,
+  max_player_count: number,
+  max_inactive_time_minutes: number,
+  config: object,
+  /** The IDs of the players that are ready. */
+  ready: string[],
+  /** Team names mapped to the IDs of their members. */
+  teams: { [index: string]: string[]; },
+  /** The IDs of the players that `Game.playerSpectatingAllowed` allows watching. */
+  spectatable: string[],
+  /** Whether the game handles the `ready` command itself, see `Game.isReservedCommand`. */
+  reserves_ready: boolean;
+};
+
+/** Messages from the main thread to a worker thread. */
+export type ToWorker =
+  | { type: "create", game_id: string, protected: boolean, config?: object; }
+  | { type: "terminate", game_id: string, reason: string; }
+  | { type: "add_player", game_id: string, player_id: string, username: string; }
+  | { type: "remove_player", game_id: string, player_id: string; }
+  | { type: "command", game_id: string, player_id: string, command: AnyCommand; }
+  | { type: "joining", game_id: string, allowed: boolean; }
+  | { type: "start", game_id: string; }
+  | { type: "update_config", game_id: string, changes: object; };
+
+/** Messages from a worker thread to the main thread. */
+export type FromWorker =
+  | { type: "snapshot", game_id: string, snapshot: GameSnapshot; }
+  | { type: "event", game_id: string, player_id: string, event: AnyEvent; }
+  | { type: "broadcast", game_id: string, event: AnyEvent, omit: string[]; }
+  | { type: "log", game_id: string, record: LogRecord; }
+  | { type: "player_rejected", game_id: string, player_id: string, reason: string; }
+  | { type: "player_removed", game_id: string, player_id: string; }
+  | { type: "create_failed", game_id: string, reason: string; };
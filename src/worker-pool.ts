@@ -0,0 +1,107 @@
+import { Worker } from "worker_threads";
+import type { FromWorker, ToWorker } from "./worker-messages.js";
+
+/** Options for running games in worker threads. */
+export interface WorkerOptions {
+  /**
+   * The path or file URL of the worker script, which must call `hostGames` with a function that creates games.
+   * The `createGame` function passed to the `GameServer` is not called.
+   */
+  script: string | URL;
+  /** The maximum number of games hosted by each worker. The default is 1. */
+  gamesPerWorker?: number;
+}
+
+type PooledWorker = {
+  worker: Worker,
+  /** The IDs of the games hosted by the worker. */
+  games: Set<string>;
+};
+
+/** Starts worker threads and distributes games across them. */
+export class WorkerPool {
+  private readonly script: string | URL;
+  /** The maximum number of games hosted by each worker. */
+  public readonly GAMES_PER_WORKER: number;
+  private readonly workers: PooledWorker[] = [];
+  /** Game IDs mapped to the functions that receive the messages of the game. */
+  private readonly receivers: { [index: string]: (message: FromWorker) => void; } = {};
+  /** Is called with the IDs of the games that were lost because their worker crashed or could not create them. */
+  private readonly onFailure: (gameIds: string[], reason: string) => void;
+
+  /**
+   * Creates a new worker pool. Workers are started when they are needed.
+   * @param options Options for running games in worker threads.
+   * @param onFailure Is called with the IDs of the games that were lost because their worker crashed or could not create them.
+   */
+  public constructor(options: WorkerOptions, onFailure: (gameIds: string[], reason: string) => void) {
+    this.script = options.script;
+    this.GAMES_PER_WORKER = Math.max(options.gamesPerWorker || 1, 1);
+    this.onFailure = onFailure;
+  }
+
+  /**
+   * Hosts a game on a worker that has room for it, starting a new worker if necessary.
+   * @param gameId The ID of the game.
+   * @param receive Is called with every message that the worker sends about the game.
+   * @returns a function that sends a message to the worker of the game.
+   */
+  public host(gameId: string, receive: (message: FromWorker) => void): (message: ToWorker) => void {
+    const pooled = this.workers.find((pooled) => pooled.games.size < this.GAMES_PER_WORKER) || this.spawn();
+    pooled.games.add(gameId);
+    this.receivers[gameId] = receive;
+    return (message) => {
+      if (pooled.games.has(gameId)) pooled.worker.postMessage(message);
+    };
+  }
+
+  /**
+   * Stops hosting a game and stops its worker if it hosts no other games.
+   * @param gameId The ID of the game.
+   */
+  public release(gameId: string) {
+    delete this.receivers[gameId];
+    const pooled = this.workers.find((pooled) => pooled.games.has(gameId));
+    if (!pooled) return;
+    pooled.games.delete(gameId);
+    if (pooled.games.size === 0) this.stop(pooled);
+  }
+
+  /** Stops all workers without reporting their games as lost. */
+  public close() {
+    for (const pooled of [...this.workers]) this.stop(pooled);
+  }
+
+  private spawn(): PooledWorker {
+    const pooled: PooledWorker = { worker: new Worker(this.script), games: new Set() };
+    pooled.worker.on("message", (message: FromWorker) => {
+      if (message.type === "create_failed") this.fail(pooled, [message.game_id], message.reason);
+      else this.receivers[message.game_id]?.(message);
+    });
+    pooled.worker.on("error", (err) => this.fail(pooled, [...pooled.games], err.stack || String(err)));
+    pooled.worker.on("exit", (code) => this.fail(pooled, [...pooled.games], `The worker exited with code ${code}.`));
+    this.workers.push(pooled);
+    return pooled;
+  }
+
+  /**
+   * Removes games from a worker and reports them as lost.
+   * @param pooled The worker.
+   * @param gameIds The IDs of the lost games.
+   * @param reason Why the games were lost.
+   */
+  private fail(pooled: PooledWorker, gameIds: string[], reason: string) {
+    const lost = gameIds.filter((gameId) => pooled.games.delete(gameId));
+    if (lost.length === 0) return;
+    for (const gameId of lost) delete this.receivers[gameId];
+    if (pooled.games.size === 0) this.stop(pooled);
+    this.onFailure(lost, reason);
+  }
+
+  private stop(pooled: PooledWorker) {
+    pooled.games.clear();
+    const index = this.workers.indexOf(pooled);
+    if (index !== -1) this.workers.splice(index, 1);
+    pooled.worker.terminate().catch(() => { });
+  }
+}
@@ -0,0 +1,127 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "url";
+import { Game, GameServer, Player } from "../dist/lib.js";
+
+const CGE_PATH = fileURLToPath(new URL("./sample.cge", import.meta.url));
+const PORT = 48632;
+
+class IdlePlayer extends Player {
+  constructor(username, game) {
+    super(username);
+    this.game = game;
+  }
+
+  handleCommand() {
+    return false;
+  }
+}
+
+/** A sample game that does nothing but whose step can be changed and that can be filled with bots. */
+class IdleGame extends Game {
+  configSanitizer(config) {
+    return { step: Number.isInteger(config?.step) ? config.step : 1 };
+  }
+
+  createPlayer(username) {
+    return new IdlePlayer(username, this);
+  }
+
+  mutableConfigFields() {
+    return ["step"];
+  }
+
+  createBotBrain() {
+    return () => { };
+  }
+
+  playerAdded() { }
+
+  playerRemoved() { }
+}
+
+/**
+ * Sends a JSON request to the server.
+ * @returns the status code and the parsed JSON body if there is one.
+ */
+const request = async (method, path, body, headers = {}) => {
+  const res = await fetch(`http://localhost:${PORT}${path}`, {
+    method,
+    headers: { "content-type": "application/json", ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await res.text();
+  return { status: res.status, body: res.headers.get("content-type")?.includes("json") ? JSON.parse(text) : text };
+};
+
+const server = new GameServer({ name: "api-test" }, CGE_PATH, null, (_protected, config) => new IdleGame(_protected, config), PORT, 0, 0);
+
+after(() => {
+  for (const id of Object.keys(server.getPrivateGames())) server.deleteGame(id, "the tests ending");
+  server.close();
+});
+
+/**
+ * Runs a test against a new game.
+ * @returns a promise that resolves once the test has finished.
+ */
+const withGame = async (run) => {
+  const created = await request("POST", "/api/games", {});
+  assert.equal(created.status, 201);
+  await run(created.body);
+};
+
+const HOST_ROUTES = [
+  ["DELETE", "/api/games/:gameId"],
+  ["POST", "/api/games/:gameId/host/kick"],
+  ["PUT", "/api/games/:gameId/host/joinable"],
+  ["POST", "/api/games/:gameId/host/start"],
+  ["PATCH", "/api/games/:gameId/host/config"],
+  ["POST", "/api/games/:gameId/host/transfer"],
+  ["POST", "/api/games/:gameId/bots"],
+];
+
+test("host routes refuse requests without the correct host secret", () => withGame(async ({ game_id }) => {
+  for (const [method, route] of HOST_ROUTES) {
+    const path = route.replace(":gameId", game_id);
+    assert.equal((await request(method, path, {})).status, 400, `${method} ${route} without a secret`);
+    assert.equal((await request(method, path, { host_secret: "wrong" })).status, 401, `${method} ${route} with a wrong secret`);
+    assert.equal((await request(method, path, {}, { authorization: "Bearer wrong" })).status, 401, `${method} ${route} with a wrong bearer secret`);
+    assert.equal((await request(method, path, { host_secret: 42 })).status, 401, `${method} ${route} with a secret that is not a string`);
+  }
+  assert.ok(server.getGame(game_id));
+  assert.equal(server.getGame(game_id).getPlayerCount(), 0);
+  assert.equal((await request("DELETE", "/api/games/00000000-0000-0000-0000-000000000000", {})).status, 404);
+}));
+
+test("the host secret is accepted in the body and as a bearer token", () => withGame(async ({ game_id, host_secret }) => {
+  const joinable = await request("PUT", `/api/games/${game_id}/host/joinable`, { host_secret, joinable: false });
+  assert.deepEqual(joinable, { status: 200, body: { joinable: false } });
+  assert.equal(server.getGame(game_id).joinable(), false);
+  const config = await request("PATCH", `/api/games/${game_id}/host/config`, { config: { step: 3 } }, { authorization: `Bearer ${host_secret}` });
+  assert.deepEqual(config, { status: 200, body: { config: { step: 3 } } });
+  assert.equal((await request("DELETE", `/api/games/${game_id}`, { host_secret })).status, 204);
+  assert.equal(server.getGame(game_id), undefined);
+}));
+
+test("only the host fills the game with bots", () => withGame(async ({ game_id, host_secret }) => {
+  assert.equal((await request("POST", `/api/games/${game_id}/bots`, { count: 2 })).status, 400);
+  assert.equal((await request("POST", `/api/games/${game_id}/bots`, { host_secret, count: 0 })).status, 400);
+  const bots = await request("POST", `/api/games/${game_id}/bots`, { host_secret, count: 2 });
+  assert.equal(bots.status, 200);
+  assert.equal(bots.body.player_ids.length, 2);
+  assert.ok(bots.body.player_ids.every((id) => server.getGame(game_id).getPlayer(id)?.isBot()));
+}));
+
+test("after the host role is transferred only the new host is accepted", () => withGame(async ({ game_id, host_secret }) => {
+  const joined = await request("POST", `/api/games/${game_id}/players`, { username: "alice" });
+  assert.equal(joined.status, 200);
+  const { player_id, player_secret, session_token } = joined.body;
+  assert.equal((await request("POST", `/api/games/${game_id}/host/transfer`, { host_secret, player_id })).status, 204);
+  assert.equal(server.getGame(game_id).getHost()?.id, player_id);
+  assert.equal((await request("POST", `/api/games/${game_id}/host/start`, { host_secret })).status, 400);
+  assert.equal((await request("POST", `/api/games/${game_id}/host/start`, { player_secret: "wrong" })).status, 401);
+  assert.equal((await request("PUT", `/api/games/${game_id}/host/joinable`, { player_secret, joinable: false })).status, 200);
+  assert.equal((await request("PUT", `/api/games/${game_id}/host/joinable`, { joinable: true }, { authorization: `Bearer ${session_token}` })).status, 200);
+  assert.equal((await request("POST", `/api/games/${game_id}/host/kick`, { player_secret, player_id: "constructor" })).status, 404);
+}));
@@ -0,0 +1,57 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseCGE, validateCommand } from "../dist/lib.js";
+
+const cge = parseCGE(`
+name board
+version 0.4
+
+// Places a piece.
+command place {
+  position: position,
+  color: color,
+  tags: list<string>,
+  scores: map<float>
+}
+
+command pass {}
+
+type position {
+  x: int,
+  y: int
+}
+
+enum color {
+  red,
+  blue
+}
+`);
+
+const place = (data) => ({ name: "place", data });
+const valid = { position: { x: 1, y: 2 }, color: "red", tags: ["a"], scores: { alice: 1.5 } };
+
+test("the declarations of a CGE file are parsed", () => {
+  assert.equal(cge.name, "board");
+  assert.equal(cge.version, "0.4");
+  assert.equal(cge.commands.place.doc, "Places a piece.");
+  assert.deepEqual(cge.commands.place.fields.tags.type, { kind: "list", of: { kind: "primitive", name: "string" } });
+  assert.deepEqual(cge.enums.color.values.map((value) => value.name), ["red", "blue"]);
+});
+
+test("CGE files that reference unknown types are refused", () => {
+  assert.throws(() => parseCGE("name a\ncommand b { c: d }"), /Unknown type "d"/);
+  assert.throws(() => parseCGE("command b {}"), /does not specify a name/);
+});
+
+test("valid commands pass validation", () => {
+  assert.deepEqual(validateCommand(cge, place(valid)), []);
+  assert.deepEqual(validateCommand(cge, { name: "pass" }), []);
+});
+
+test("invalid commands are rejected with the paths of the offending values", () => {
+  assert.deepEqual(validateCommand(cge, { name: "jump" }), [{ path: "name", message: `Unknown command "jump".` }]);
+  assert.deepEqual(validateCommand(cge, { name: "constructor" }), [{ path: "name", message: `Unknown command "constructor".` }]);
+  assert.deepEqual(validateCommand(cge, place(undefined)), [{ path: "data", message: "Expected an object." }]);
+  const errors = validateCommand(cge, place({ ...valid, position: { x: 1.5 }, color: "green", tags: ["a", 1], scores: { alice: "high" } }));
+  assert.deepEqual(errors.map((error) => error.path), ["data.position.x", "data.position.y", "data.color", "data.tags[1]", "data.scores.alice"]);
+});
@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { jsonCodec, msgpackCodec } from "../dist/lib.js";
+
+const roundTrip = (codec, message) => codec.decode(Buffer.from(codec.encode(message)));
+
+test("MessagePack encodes every kind of value and decodes it again", () => {
+  const message = {
+    name: "state",
+    data: {
+      nothing: null,
+      flags: [true, false],
+      integers: [0, 127, 128, 255, 256, 65535, 65536, 2 ** 32 - 1, 2 ** 32, Number.MAX_SAFE_INTEGER, -1, -32, -33, -128, -129, -32768, -32769, -(2 ** 31), -(2 ** 31) - 1, Number.MIN_SAFE_INTEGER],
+      floats: [0.5, -1.25, 1e300],
+      strings: ["", "short", "x".repeat(31), "x".repeat(32), "x".repeat(256), "x".repeat(65536), "ünïcödé"],
+      list: new Array(16).fill(1),
+      map: Object.fromEntries(Array.from({ length: 16 }, (_, i) => [`key${i}`, i])),
+      nested: { deeper: { deepest: [[], {}] } },
+    },
+  };
+  assert.deepEqual(roundTrip(msgpackCodec, message), message);
+});
+
+test("MessagePack omits undefined properties and respects toJSON like JSON", () => {
+  const message = { a: undefined, b: 1, date: new Date(0), items: [undefined] };
+  assert.deepEqual(roundTrip(msgpackCodec, message), roundTrip(jsonCodec, message));
+});
+
+test("MessagePack keeps binary data and decodes __proto__ as an own property", () => {
+  const bytes = Buffer.from([1, 2, 3]);
+  assert.deepEqual(roundTrip(msgpackCodec, { bytes }), { bytes });
+  const decoded = roundTrip(msgpackCodec, JSON.parse('{ "__proto__": { "polluted": true } }'));
+  assert.equal(Object.getPrototypeOf(decoded), Object.prototype);
+  assert.deepEqual(Object.keys(decoded), ["__proto__"]);
+});
+
+test("malformed MessagePack data is refused", () => {
+  assert.throws(() => msgpackCodec.decode(Buffer.from([0x92, 0x01])), /Unexpected end/);
+  assert.throws(() => msgpackCodec.decode(Buffer.from([0x01, 0x02])), /Unexpected data/);
+  assert.throws(() => msgpackCodec.decode(Buffer.from([0xc1])), /Unsupported MessagePack type/);
+});
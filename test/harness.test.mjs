@@ -0,0 +1,154 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "url";
+import { Game, GameState, Player, TestHarness, useClock } from "../dist/lib.js";
+
+const CGE_PATH = fileURLToPath(new URL("./sample.cge", import.meta.url));
+
+class CounterPlayer extends Player {
+  constructor(username, game) {
+    super(username);
+    this.game = game;
+  }
+
+  handleCommand(command) {
+    if (command.name !== "increment") return false;
+    this.game.increment(this);
+    return true;
+  }
+}
+
+/** A sample game whose players increase a shared counter and that ticks once a second after two players joined. */
+class CounterGame extends Game {
+  count = 0;
+
+  constructor(_protected, config) {
+    super(_protected, config, 2);
+    this.enableAutoStart(2, false);
+  }
+
+  configSanitizer(config) {
+    return { step: Number.isInteger(config?.step) ? config.step : 1 };
+  }
+
+  createPlayer(username) {
+    return new CounterPlayer(username, this);
+  }
+
+  playerAdded() { }
+
+  playerRemoved() { }
+
+  gameStarted() {
+    this.startTicking(1);
+  }
+
+  onTick(delta) {
+    this.broadcastEvent({ name: "tick", data: { elapsed_ms: delta } });
+  }
+
+  increment(player) {
+    this.count += this.config.step;
+    this.broadcastEvent({ name: "counted", data: { count: this.count, by: player.id } });
+  }
+}
+
+const createHarness = (config) => new TestHarness((_protected, config) => new CounterGame(_protected, config), { cgePath: CGE_PATH, config });
+
+test("commands reach the game and its events reach all players", () => {
+  const harness = createHarness({ step: 2 });
+  try {
+    const alice = harness.join("alice");
+    const bob = harness.join("bob");
+    alice.send({ name: "increment" });
+    bob.send({ name: "increment" });
+    assert.deepEqual(alice.eventsNamed("counted").map((event) => event.data), [
+      { count: 2, by: alice.player.id },
+      { count: 4, by: bob.player.id },
+    ]);
+    assert.deepEqual(bob.lastEvent("counted")?.data, { count: 4, by: bob.player.id });
+  } finally {
+    harness.close();
+  }
+});
+
+test("commands that do not match the CGE file are rejected", () => {
+  const harness = createHarness();
+  try {
+    const alice = harness.join("alice");
+    alice.send({ name: "decrement" });
+    assert.equal(alice.lastEvent("command_rejected")?.data.message, 'Command "decrement" does not match the CGE file and was rejected.');
+    assert.equal(harness.game.count, 0);
+  } finally {
+    harness.close();
+  }
+});
+
+test("the game starts and ticks on the fake clock", () => {
+  const harness = createHarness();
+  try {
+    const alice = harness.join("alice");
+    assert.equal(harness.game.getState(), GameState.LOBBY);
+    harness.join("bob");
+    assert.equal(harness.game.getState(), GameState.RUNNING);
+    harness.clock.advance(3000);
+    assert.equal(alice.eventsNamed("tick").length, 3);
+  } finally {
+    harness.close();
+  }
+});
+
+test("players that stop answering pings are disconnected and reaped", () => {
+  const harness = createHarness();
+  try {
+    const alice = harness.join("alice");
+    alice.respondsToPings = false;
+    harness.clock.advance(2 * 10 * 60 * 1000);
+    assert.equal(alice.connected(), false);
+    assert.equal(harness.reapInactive(), false);
+    harness.clock.advance(10 * 60 * 1000 + 1);
+    assert.equal(harness.reapInactive(), true);
+  } finally {
+    harness.close();
+  }
+});
+
+test("timers are cleared by the clock that created them", () => {
+  const harness = createHarness();
+  try {
+    const alice = harness.join("alice");
+    const pending = harness.clock.getPendingTimerCount();
+    useClock(null);
+    alice.disconnect();
+    assert.equal(harness.clock.getPendingTimerCount(), pending - 1);
+  } finally {
+    harness.close();
+  }
+});
+
+test("the ready command is only exempt from validation if the game waits for ready players", () => {
+  const harness = createHarness();
+  try {
+    const alice = harness.join("alice");
+    alice.send({ name: "ready", data: { now: true } });
+    assert.equal(alice.lastEvent("command_rejected")?.data.message, 'Command "ready" does not match the CGE file and was rejected.');
+  } finally {
+    harness.close();
+  }
+
+  class ReadyGame extends CounterGame {
+    constructor(_protected, config) {
+      super(_protected, config);
+      this.enableAutoStart(2, true);
+    }
+  }
+  const readyHarness = new TestHarness((_protected, config) => new ReadyGame(_protected, config), { cgePath: CGE_PATH });
+  try {
+    const alice = readyHarness.join("alice");
+    alice.send({ name: "ready" });
+    assert.equal(alice.lastEvent("command_rejected"), undefined);
+    assert.equal(readyHarness.game.isReady(alice.player.id), true);
+  } finally {
+    readyHarness.close();
+  }
+});
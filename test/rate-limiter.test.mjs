@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FakeClock, useClock } from "../dist/lib.js";
+import { RateLimiter } from "../dist/rate-limiter.js";
+
+/**
+ * Runs a test with a fake clock that all rate limiters use.
+ * @returns the result of the test.
+ */
+const withClock = (run) => {
+  const clock = new FakeClock(1_000_000);
+  useClock(clock);
+  try {
+    return run(clock);
+  } finally {
+    useClock(null);
+  }
+};
+
+test("a burst is allowed and refills at the configured rate", () => withClock((clock) => {
+  const limiter = new RateLimiter({ rate: 2, burst: 3 });
+  assert.ok(limiter.take("a"));
+  assert.ok(limiter.take("a"));
+  assert.ok(limiter.take("a"));
+  assert.equal(limiter.take("a"), false);
+  assert.equal(limiter.retryAfterSeconds("a"), 1);
+  clock.advance(499);
+  assert.equal(limiter.take("a"), false);
+  clock.advance(1);
+  assert.ok(limiter.take("a"));
+  assert.equal(limiter.take("a"), false);
+  clock.advance(10_000);
+  for (let i = 0; i < 3; i++) assert.ok(limiter.take("a"));
+  assert.equal(limiter.take("a"), false);
+}));
+
+test("every key has its own bucket", () => withClock(() => {
+  const limiter = new RateLimiter({ rate: 1, burst: 1 });
+  assert.ok(limiter.take("a"));
+  assert.equal(limiter.take("a"), false);
+  assert.ok(limiter.take("b"));
+  assert.equal(limiter.retryAfterSeconds("c"), 0);
+}));
+
+test("a bucket without a rate never refills", () => withClock((clock) => {
+  const limiter = new RateLimiter({ rate: 0, burst: 1 });
+  assert.ok(limiter.take("a"));
+  clock.advance(60 * 60 * 1000);
+  assert.equal(limiter.take("a"), false);
+  assert.equal(limiter.retryAfterSeconds("a"), Infinity);
+}));
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FakeClock, SessionTokens, useClock } from "../dist/lib.js";
+
+/**
+ * Runs a test with a fake clock that all tokens use.
+ * @returns the result of the test.
+ */
+const withClock = (run) => {
+  const clock = new FakeClock(1_000_000);
+  useClock(clock);
+  try {
+    return run(clock);
+  } finally {
+    useClock(null);
+  }
+};
+
+test("issued tokens carry their claims", () => withClock(() => {
+  const sessions = new SessionTokens({ ttlSeconds: 60 });
+  const { token, expires_at } = sessions.issue("game", "player");
+  assert.equal(expires_at, 1_000 + 60);
+  const claims = sessions.verify(token);
+  assert.equal(claims?.game_id, "game");
+  assert.equal(claims?.player_id, "player");
+  assert.equal(claims?.expires_at, expires_at);
+}));
+
+test("tampered tokens and tokens of other keys are refused", () => withClock(() => {
+  const sessions = new SessionTokens({ key: "a" });
+  const { token } = sessions.issue("game", "player");
+  const [payload, signature] = token.split(".");
+  const forged = Buffer.from(JSON.stringify({ ...sessions.verify(token), player_id: "someone else" })).toString("base64url");
+  assert.equal(sessions.verify(`${forged}.${signature}`), null);
+  assert.equal(sessions.verify(`${payload}.${signature}x`), null);
+  assert.equal(sessions.verify(`${token}.${signature}`), null);
+  assert.equal(sessions.verify(payload), null);
+  assert.equal(new SessionTokens({ key: "b" }).verify(token), null);
+  assert.ok(new SessionTokens({ key: "a" }).verify(token));
+}));
+
+test("tokens expire after their lifetime", () => withClock((clock) => {
+  const sessions = new SessionTokens({ ttlSeconds: 60 });
+  const { token } = sessions.issue("game", "player");
+  clock.advance(59_999);
+  assert.ok(sessions.verify(token));
+  clock.advance(1);
+  assert.equal(sessions.verify(token), null);
+}));
+
+test("refreshing a token revokes the old one", () => withClock((clock) => {
+  const sessions = new SessionTokens({ ttlSeconds: 60 });
+  const { token } = sessions.issue("game", "player");
+  clock.advance(30_000);
+  const refreshed = sessions.refresh(token);
+  assert.ok(refreshed);
+  assert.equal(refreshed.expires_at, 1_000 + 30 + 60);
+  assert.equal(sessions.verify(token), null);
+  assert.equal(sessions.refresh(token), null);
+  assert.equal(sessions.verify(refreshed.token)?.player_id, "player");
+}));
+
+test("tokens are found in the authorization header and in the websocket subprotocols", () => {
+  assert.equal(SessionTokens.fromHeaders({ authorization: "Bearer abc.def" }), "abc.def");
+  assert.equal(SessionTokens.fromHeaders({ "sec-websocket-protocol": "msgpack, session.abc.def" }), "abc.def");
+  assert.equal(SessionTokens.fromHeaders({ authorization: "Basic abc", "sec-websocket-protocol": "msgpack" }), null);
+  assert.equal(SessionTokens.fromHeaders({}), null);
+});
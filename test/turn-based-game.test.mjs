@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Player, TestHarness, TurnBasedGame } from "../dist/lib.js";
+
+class PassingPlayer extends Player {
+  constructor(username, game) {
+    super(username);
+    this.game = game;
+  }
+
+  handleCommand(command) {
+    if (command.name !== "pass") return false;
+    this.game.pass();
+    return true;
+  }
+}
+
+/** A sample game in which players do nothing but pass their turn. It starts as soon as two players joined. */
+class PassingGame extends TurnBasedGame {
+  constructor(_protected, config) {
+    super(_protected, config, 2);
+    this.enableAutoStart(2, false);
+  }
+
+  configSanitizer() {
+    return {};
+  }
+
+  createPlayer(username) {
+    return new PassingPlayer(username, this);
+  }
+
+  createBotBrain() {
+    return (event, sendCommand) => {
+      if (event.name === "turn_started" && event.data.player_id === this.currentPlayer()?.id) sendCommand({ name: "pass" });
+    };
+  }
+
+  playerAdded() { }
+
+  playerRemoved() { }
+
+  gameStarted() {
+    this.startTurns();
+  }
+
+  pass() {
+    this.endTurn();
+  }
+}
+
+test("bots take their turns", async () => {
+  const harness = new TestHarness((_protected, config) => new PassingGame(_protected, config));
+  try {
+    const alice = harness.join("alice");
+    const bot = harness.game.addBot();
+    assert.equal(harness.game.currentPlayer(), alice.player);
+    alice.send({ name: "pass" });
+    assert.equal(harness.game.currentPlayer(), bot);
+    await harness.settle();
+    assert.equal(harness.game.currentPlayer(), alice.player);
+    assert.deepEqual(alice.eventsNamed("turn_ended").map((event) => event.data.player_id), [alice.player.id, bot.id]);
+  } finally {
+    harness.close();
+  }
+});
+
+test("the player whose join starts the game takes turns", () => {
+  const harness = new TestHarness((_protected, config) => new PassingGame(_protected, config));
+  try {
+    const alice = harness.join("alice");
+    const bob = harness.join("bob");
+    assert.equal(harness.game.currentPlayer(), alice.player);
+    alice.send({ name: "pass" });
+    assert.equal(harness.game.currentPlayer(), bob.player);
+  } finally {
+    harness.close();
+  }
+});
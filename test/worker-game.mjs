@@ -0,0 +1,31 @@
+import { Game, Player, hostGames } from "../dist/lib.js";
+
+class LeavingPlayer extends Player {
+  constructor(username, game) {
+    super(username);
+    this.game = game;
+  }
+
+  handleCommand(command) {
+    if (command.name !== "leave") return false;
+    this.game.removePlayer(this);
+    return true;
+  }
+}
+
+/** A sample game for worker threads in which players can ask the game to remove them. */
+class LeavingGame extends Game {
+  configSanitizer() {
+    return {};
+  }
+
+  createPlayer(username) {
+    return new LeavingPlayer(username, this);
+  }
+
+  playerAdded() { }
+
+  playerRemoved() { }
+}
+
+hostGames((_protected, config) => new LeavingGame(_protected, config));
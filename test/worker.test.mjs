@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "url";
+import { GameServer, TestClient } from "../dist/lib.js";
+
+const CGE_PATH = fileURLToPath(new URL("./sample.cge", import.meta.url));
+const PORT = 48631;
+
+/**
+ * Waits until a condition is met.
+ * @returns a promise that rejects if the condition is not met within a second.
+ */
+const waitFor = async (condition) => {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (condition()) return;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw "The condition was not met in time.";
+};
+
+test("players that the game in a worker removes are removed from the main thread", async () => {
+  const server = new GameServer({ name: "worker-test" }, CGE_PATH, null, null, PORT, 0, 0, {
+    workers: { script: new URL("./worker-game.mjs", import.meta.url) },
+  });
+  const { gameId } = server.createGame(false, false);
+  try {
+    const game = await server.whenCreated(gameId);
+    assert.ok(game);
+    const alice = new TestClient(game.addPlayer("alice"), 600, null);
+    alice.connect();
+    alice.player.handleCommandInternalWrapper({ name: "leave" });
+    await waitFor(() => game.getPlayerCount() === 0);
+    assert.equal(game.getPlayer(alice.player.id), undefined);
+    assert.equal(alice.connected(), false);
+  } finally {
+    if (server.getGame(gameId)) server.deleteGame(gameId, "the test ending");
+    server.close();
+  }
+});